@@ -131,6 +131,49 @@ public class TodosApiTests : IClassFixture<MsSqlFixture>
         Assert.Contains(list, item => item.Title == "Needle title");
     }
 
+    [Fact]
+    public async Task TagsAreNormalizedAndFilterableAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var createResponse = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("Write report", null, null, null, Tags: ["#Work", " work ", "Urgent"]),
+            cancellationToken);
+        createResponse.EnsureSuccessStatusCode();
+
+        var created = await createResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.Equal(new[] { "work", "urgent" }, created!.Tags.ToArray());
+
+        _ = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("Buy milk", null, null, null, Tags: ["home"]),
+            cancellationToken);
+
+        var listResponse = await client.GetAsync("/api/todos?tag=WORK&pageSize=100", cancellationToken);
+        listResponse.EnsureSuccessStatusCode();
+
+        var list = await listResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken);
+        Assert.NotNull(list);
+        Assert.Equal("Write report", Assert.Single(list!).Title);
+
+        var patchResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{created.Id}",
+            new UpdateTodoRequest(null, null, null, null, null, Tags: ["home"]),
+            cancellationToken);
+        patchResponse.EnsureSuccessStatusCode();
+
+        var tagsResponse = await client.GetAsync("/api/todos/tags", cancellationToken);
+        tagsResponse.EnsureSuccessStatusCode();
+
+        var tags = await tagsResponse.Content.ReadFromJsonAsync<List<TodoTagDto>>(JsonOptions, cancellationToken);
+        Assert.Equal(new[] { new TodoTagDto("home", 2) }, tags!.ToArray());
+    }
+
     [Fact]
     public async Task SortByDueOrdersSoonestFirstAsync()
     {
@@ -166,6 +209,680 @@ public class TodosApiTests : IClassFixture<MsSqlFixture>
         Assert.Equal("No due", list[2].Title);
     }
 
+    [Fact]
+    public async Task SortByPriorityRanksMostImportantFirstAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var now = DateTimeOffset.UtcNow;
+        _ = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("No priority", null, null, null),
+            cancellationToken);
+        _ = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("High later", null, now.AddDays(2), null, Priority: "high"),
+            cancellationToken);
+        _ = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("Urgent", null, null, null, Priority: "urgent"),
+            cancellationToken);
+        var highSoon = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("High soon", null, now.AddDays(1), null, Priority: "high"),
+            cancellationToken);
+
+        var created = await highSoon.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.Equal("high", created!.Priority);
+
+        var listResponse = await client.GetAsync("/api/todos?sort=-priority&pageSize=100", cancellationToken);
+        listResponse.EnsureSuccessStatusCode();
+
+        var list = await listResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken);
+        Assert.NotNull(list);
+        Assert.Equal(
+            new[] { "Urgent", "High soon", "High later", "No priority" },
+            list!.Select(item => item.Title).ToArray());
+
+        var invalidResponse = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("Bad priority", null, null, null, Priority: "critical"),
+            cancellationToken);
+        Assert.Equal(HttpStatusCode.BadRequest, invalidResponse.StatusCode);
+    }
+
+    [Fact]
+    public async Task AllDayDueDatesKeepTheirCalendarDateAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        // Late evening west of UTC is already the next day in UTC; the date the client wrote wins.
+        var lateEvening = new DateTimeOffset(2026, 3, 10, 22, 30, 0, TimeSpan.FromHours(-5));
+
+        var allDayResponse = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("All day", null, lateEvening, null),
+            cancellationToken);
+        allDayResponse.EnsureSuccessStatusCode();
+
+        var allDay = await allDayResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.True(allDay!.IsAllDay);
+        Assert.Equal(new DateTimeOffset(2026, 3, 10, 0, 0, 0, TimeSpan.Zero), allDay.DueDate);
+
+        var timedResponse = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("Timed", null, lateEvening, null, IsAllDay: false),
+            cancellationToken);
+        timedResponse.EnsureSuccessStatusCode();
+
+        var timed = await timedResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.False(timed!.IsAllDay);
+        Assert.Equal(lateEvening, timed.DueDate);
+
+        var clearResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{timed.Id}",
+            new UpdateTodoRequest(null, null, null, null, null, ClearDueDate: true),
+            cancellationToken);
+        clearResponse.EnsureSuccessStatusCode();
+
+        var cleared = await clearResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.Null(cleared!.DueDate);
+        Assert.False(cleared.IsAllDay);
+    }
+
+    [Fact]
+    public async Task PatchWithStaleIfMatchReturnsCurrentTodoAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var created = await CreateTodoAsync(client, "Original", cancellationToken);
+        var staleETag = $"\"{created.UpdatedAt:O}\"";
+
+        using var firstRequest = new HttpRequestMessage(HttpMethod.Patch, $"/api/todos/{created.Id}")
+        {
+            Content = JsonContent.Create(new UpdateTodoRequest("Theirs", null, null, null, null), options: JsonOptions)
+        };
+        firstRequest.Headers.IfMatch.ParseAdd(staleETag);
+
+        var firstResponse = await client.SendAsync(firstRequest, cancellationToken);
+        firstResponse.EnsureSuccessStatusCode();
+        Assert.NotNull(firstResponse.Headers.ETag);
+
+        using var secondRequest = new HttpRequestMessage(HttpMethod.Patch, $"/api/todos/{created.Id}")
+        {
+            Content = JsonContent.Create(new UpdateTodoRequest("Yours", null, null, null, null), options: JsonOptions)
+        };
+        secondRequest.Headers.IfMatch.ParseAdd(staleETag);
+
+        var conflictResponse = await client.SendAsync(secondRequest, cancellationToken);
+        Assert.Equal(HttpStatusCode.PreconditionFailed, conflictResponse.StatusCode);
+
+        var current = await conflictResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.Equal("Theirs", current!.Title);
+
+        using var retryRequest = new HttpRequestMessage(HttpMethod.Patch, $"/api/todos/{created.Id}")
+        {
+            Content = JsonContent.Create(new UpdateTodoRequest("Yours", null, null, null, null), options: JsonOptions)
+        };
+        retryRequest.Headers.IfMatch.Add(firstResponse.Headers.ETag!);
+
+        var retryResponse = await client.SendAsync(retryRequest, cancellationToken);
+        retryResponse.EnsureSuccessStatusCode();
+
+        var saved = await retryResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.Equal("Yours", saved!.Title);
+    }
+
+    [Fact]
+    public async Task InvalidFieldsReturnValidationProblemAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var response = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest(" ", new string('n', 2001), null, null),
+            cancellationToken);
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+        Assert.Equal("application/problem+json", response.Content.Headers.ContentType?.MediaType);
+
+        var problem = await response.Content.ReadFromJsonAsync<ValidationProblem>(JsonOptions, cancellationToken);
+        Assert.NotNull(problem);
+        Assert.Equal(["Title is required."], problem!.Errors["title"]);
+        Assert.True(problem.Errors.ContainsKey("notes"));
+        Assert.False(string.IsNullOrEmpty(problem.TraceId));
+
+        var notFoundResponse = await client.GetAsync("/api/todos/999999", cancellationToken);
+        Assert.Equal(HttpStatusCode.NotFound, notFoundResponse.StatusCode);
+        Assert.Equal("application/problem+json", notFoundResponse.Content.Headers.ContentType?.MediaType);
+    }
+
+    [Fact]
+    public async Task BatchAppliesEveryChangeAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var first = await CreateTodoAsync(client, "First", cancellationToken);
+        var second = await CreateTodoAsync(client, "Second", cancellationToken);
+        var third = await CreateTodoAsync(client, "Third", cancellationToken);
+
+        var batchResponse = await client.PostAsJsonAsync(
+            "/api/todos/batch",
+            new BatchTodosRequest(
+                [
+                    new BatchTodoUpdate(first.Id, new UpdateTodoRequest(null, null, null, null, true, false)),
+                    new BatchTodoUpdate(second.Id, new UpdateTodoRequest("Second renamed", null, null, null, null, false))
+                ],
+                [third.Id]),
+            cancellationToken);
+
+        batchResponse.EnsureSuccessStatusCode();
+
+        var batch = await batchResponse.Content.ReadFromJsonAsync<BatchTodosResponse>(JsonOptions, cancellationToken);
+        Assert.NotNull(batch);
+        Assert.Equal(2, batch!.Updated.Count);
+        Assert.Equal(third.Id, Assert.Single(batch.Deleted));
+
+        var list = await client.GetFromJsonAsync<List<TodoItemDto>>("/api/todos?pageSize=100", JsonOptions, cancellationToken);
+        Assert.NotNull(list);
+        Assert.Equal(2, list!.Count);
+        Assert.True(list.Single(item => item.Id == first.Id).IsCompleted);
+        Assert.Equal("Second renamed", list.Single(item => item.Id == second.Id).Title);
+    }
+
+    [Fact]
+    public async Task BatchWithInvalidChangeSavesNothingAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var first = await CreateTodoAsync(client, "First", cancellationToken);
+        var second = await CreateTodoAsync(client, "Second", cancellationToken);
+
+        var batchResponse = await client.PostAsJsonAsync(
+            "/api/todos/batch",
+            new BatchTodosRequest(
+                [
+                    new BatchTodoUpdate(first.Id, new UpdateTodoRequest(null, null, null, null, true, false)),
+                    new BatchTodoUpdate(second.Id, new UpdateTodoRequest(" ", null, null, null, null, false))
+                ],
+                null),
+            cancellationToken);
+
+        Assert.Equal(HttpStatusCode.BadRequest, batchResponse.StatusCode);
+
+        var missingResponse = await client.PostAsJsonAsync(
+            "/api/todos/batch",
+            new BatchTodosRequest(null, [first.Id, second.Id + 1000]),
+            cancellationToken);
+
+        Assert.Equal(HttpStatusCode.NotFound, missingResponse.StatusCode);
+
+        var list = await client.GetFromJsonAsync<List<TodoItemDto>>("/api/todos?pageSize=100", JsonOptions, cancellationToken);
+        Assert.NotNull(list);
+        Assert.Equal(2, list!.Count);
+        Assert.All(list, item => Assert.False(item.IsCompleted));
+    }
+
+    [Fact]
+    public async Task MoveRewritesOnlyTheMovedTodoAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var first = await CreateTodoAsync(client, "First", cancellationToken);
+        var second = await CreateTodoAsync(client, "Second", cancellationToken);
+        var third = await CreateTodoAsync(client, "Third", cancellationToken);
+
+        var moveResponse = await client.PostAsJsonAsync(
+            $"/api/todos/{first.Id}/move",
+            new MoveTodoRequest(third.Id, second.Id),
+            cancellationToken);
+
+        moveResponse.EnsureSuccessStatusCode();
+
+        var changed = await moveResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken);
+        Assert.NotNull(changed);
+        Assert.Equal(first.Id, Assert.Single(changed!).Id);
+
+        var list = await client.GetFromJsonAsync<List<TodoItemDto>>("/api/todos?sort=order", JsonOptions, cancellationToken);
+        Assert.NotNull(list);
+        Assert.Equal(new[] { third.Id, first.Id, second.Id }, list!.Select(item => item.Id).ToArray());
+    }
+
+    [Fact]
+    public async Task MoveRebalancesWhenNeighboursHaveNoGapAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var top = await CreateTodoAsync(client, "Top", 0, cancellationToken);
+        var bottom = await CreateTodoAsync(client, "Bottom", 1, cancellationToken);
+        var moved = await CreateTodoAsync(client, "Moved", cancellationToken);
+
+        var moveResponse = await client.PostAsJsonAsync(
+            $"/api/todos/{moved.Id}/move",
+            new MoveTodoRequest(top.Id, bottom.Id),
+            cancellationToken);
+
+        moveResponse.EnsureSuccessStatusCode();
+
+        var list = await client.GetFromJsonAsync<List<TodoItemDto>>("/api/todos?sort=order", JsonOptions, cancellationToken);
+        Assert.NotNull(list);
+        Assert.Equal(new[] { top.Id, moved.Id, bottom.Id }, list!.Select(item => item.Id).ToArray());
+        Assert.Equal(list.Count, list.Select(item => item.SortOrder).Distinct().Count());
+    }
+
+    [Fact]
+    public async Task TrashListsAndPurgesDeletedTodosAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var kept = await CreateTodoAsync(client, "Kept", cancellationToken);
+        var first = await CreateTodoAsync(client, "First deleted", cancellationToken);
+        var second = await CreateTodoAsync(client, "Second deleted", cancellationToken);
+
+        (await client.DeleteAsync($"/api/todos/{first.Id}", cancellationToken)).EnsureSuccessStatusCode();
+        (await client.DeleteAsync($"/api/todos/{second.Id}", cancellationToken)).EnsureSuccessStatusCode();
+
+        var trash = await client.GetFromJsonAsync<List<TodoItemDto>>("/api/todos?deleted=true", JsonOptions, cancellationToken);
+        Assert.NotNull(trash);
+        Assert.Equal(new[] { first.Id, second.Id }, trash!.Select(item => item.Id).Order().ToArray());
+        Assert.All(trash, item => Assert.NotNull(item.DeletedAt));
+
+        var purgeLiveResponse = await client.DeleteAsync($"/api/todos/trash/{kept.Id}", cancellationToken);
+        Assert.Equal(HttpStatusCode.NotFound, purgeLiveResponse.StatusCode);
+
+        var purgeResponse = await client.DeleteAsync($"/api/todos/trash/{first.Id}", cancellationToken);
+        Assert.Equal(HttpStatusCode.NoContent, purgeResponse.StatusCode);
+
+        var restoreResponse = await client.PostAsync($"/api/todos/{first.Id}/restore", null, cancellationToken);
+        Assert.Equal(HttpStatusCode.NotFound, restoreResponse.StatusCode);
+
+        var emptyResponse = await client.DeleteAsync("/api/todos/trash", cancellationToken);
+        emptyResponse.EnsureSuccessStatusCode();
+
+        var emptied = await emptyResponse.Content.ReadFromJsonAsync<PurgeTodosResponse>(JsonOptions, cancellationToken);
+        Assert.Equal(1, emptied!.Purged);
+
+        var list = await client.GetFromJsonAsync<List<TodoItemDto>>("/api/todos?deleted=true", JsonOptions, cancellationToken);
+        Assert.Empty(list!);
+
+        var getKeptResponse = await client.GetAsync($"/api/todos/{kept.Id}", cancellationToken);
+        getKeptResponse.EnsureSuccessStatusCode();
+    }
+
+    [Fact]
+    public async Task EventStreamPublishesSavedChangesAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        using var request = new HttpRequestMessage(HttpMethod.Get, "/api/todos/events");
+        using var streamResponse = await client.SendAsync(
+            request,
+            HttpCompletionOption.ResponseHeadersRead,
+            cancellationToken);
+
+        streamResponse.EnsureSuccessStatusCode();
+        Assert.Equal("text/event-stream", streamResponse.Content.Headers.ContentType?.MediaType);
+
+        using var reader = new StreamReader(await streamResponse.Content.ReadAsStreamAsync(cancellationToken));
+
+        var ready = await ReadTodoEventAsync(reader, cancellationToken);
+        Assert.Equal("ready", ready.Type);
+
+        var created = await CreateTodoAsync(client, "Pushed", cancellationToken);
+        (await client.DeleteAsync($"/api/todos/{created.Id}", cancellationToken)).EnsureSuccessStatusCode();
+
+        var createdEvent = await ReadTodoEventAsync(reader, cancellationToken);
+        Assert.Equal("created", createdEvent.Type);
+        Assert.Equal(created.Id, Assert.Single(createdEvent.Todos).Id);
+
+        var deletedEvent = await ReadTodoEventAsync(reader, cancellationToken);
+        Assert.Equal("deleted", deletedEvent.Type);
+        Assert.Equal([created.Id], deletedEvent.Ids);
+        Assert.NotNull(Assert.Single(deletedEvent.Todos).DeletedAt);
+    }
+
+    [Fact]
+    public async Task ChecklistTracksProgressAndPromotesItemsAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var todo = await CreateTodoAsync(client, "Pack for the trip", cancellationToken);
+
+        TodoChecklistResponse? checklist = null;
+        foreach (var title in new[] { "Passport", "Charger", "Book a taxi" })
+        {
+            var addResponse = await client.PostAsJsonAsync(
+                $"/api/todos/{todo.Id}/checklist",
+                new CreateChecklistItemRequest(title),
+                cancellationToken);
+            addResponse.EnsureSuccessStatusCode();
+
+            checklist = await addResponse.Content.ReadFromJsonAsync<TodoChecklistResponse>(JsonOptions, cancellationToken);
+        }
+
+        var items = checklist!.Items;
+        Assert.Equal(3, checklist.Todo.ChecklistCount);
+
+        // Ticking off an item keeps the todo's version, so an open edit of it can still be saved.
+        var tickResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{todo.Id}/checklist/{items[0].Id}",
+            new UpdateChecklistItemRequest(null, true),
+            cancellationToken);
+        tickResponse.EnsureSuccessStatusCode();
+
+        checklist = await tickResponse.Content.ReadFromJsonAsync<TodoChecklistResponse>(JsonOptions, cancellationToken);
+        Assert.Equal(1, checklist!.Todo.ChecklistCompletedCount);
+        Assert.Equal(todo.UpdatedAt, checklist.Todo.UpdatedAt);
+
+        var reorderResponse = await client.PutAsJsonAsync(
+            $"/api/todos/{todo.Id}/checklist/order",
+            new ReorderChecklistRequest([items[2].Id, items[0].Id, items[1].Id]),
+            cancellationToken);
+        reorderResponse.EnsureSuccessStatusCode();
+
+        var staleOrderResponse = await client.PutAsJsonAsync(
+            $"/api/todos/{todo.Id}/checklist/order",
+            new ReorderChecklistRequest([items[2].Id, items[0].Id]),
+            cancellationToken);
+        Assert.Equal(HttpStatusCode.BadRequest, staleOrderResponse.StatusCode);
+
+        var promoteResponse = await client.PostAsync(
+            $"/api/todos/{todo.Id}/checklist/{items[2].Id}/promote",
+            null,
+            cancellationToken);
+        promoteResponse.EnsureSuccessStatusCode();
+
+        checklist = await promoteResponse.Content.ReadFromJsonAsync<TodoChecklistResponse>(JsonOptions, cancellationToken);
+        Assert.Equal("Book a taxi", checklist!.Promoted?.Title);
+        Assert.Equal(new[] { "Passport", "Charger" }, checklist.Items.Select(item => item.Title).ToArray());
+        Assert.Equal(2, checklist.Todo.ChecklistCount);
+
+        var completeResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{todo.Id}",
+            new UpdateTodoRequest(null, null, null, null, true, CompleteChecklist: true),
+            cancellationToken);
+        completeResponse.EnsureSuccessStatusCode();
+
+        var completed = await completeResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.Equal(2, completed!.ChecklistCompletedCount);
+
+        var listResponse = await client.GetAsync($"/api/todos/{todo.Id}/checklist", cancellationToken);
+        var list = await listResponse.Content.ReadFromJsonAsync<List<TodoChecklistItemDto>>(JsonOptions, cancellationToken);
+        Assert.All(list!, item => Assert.True(item.IsCompleted));
+    }
+
+    [Fact]
+    public async Task ListsGroupTodosAndCountOpenOnesAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var createListResponse = await client.PostAsJsonAsync(
+            "/api/lists",
+            new CreateTodoListRequest("Groceries", "#22C55E"),
+            cancellationToken);
+        Assert.Equal(HttpStatusCode.Created, createListResponse.StatusCode);
+
+        var list = await createListResponse.Content.ReadFromJsonAsync<TodoListDto>(JsonOptions, cancellationToken);
+        Assert.Equal("#22c55e", list!.Color);
+
+        _ = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("Milk", null, null, null, ListId: list.Id),
+            cancellationToken);
+        _ = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest("Eggs", null, null, null, ListId: list.Id),
+            cancellationToken);
+        var loose = await CreateTodoAsync(client, "Call the bank", cancellationToken);
+
+        var moveResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{loose.Id}",
+            new UpdateTodoRequest(null, null, null, null, null, ListId: list.Id),
+            cancellationToken);
+        moveResponse.EnsureSuccessStatusCode();
+
+        var unknownListResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{loose.Id}",
+            new UpdateTodoRequest(null, null, null, null, null, ListId: list.Id + 1000),
+            cancellationToken);
+        var problem = await unknownListResponse.Content.ReadFromJsonAsync<ValidationProblem>(JsonOptions, cancellationToken);
+        Assert.Equal(HttpStatusCode.BadRequest, unknownListResponse.StatusCode);
+        Assert.True(problem!.Errors.ContainsKey("listId"));
+
+        var completeResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{loose.Id}",
+            new UpdateTodoRequest(null, null, null, null, true),
+            cancellationToken);
+        completeResponse.EnsureSuccessStatusCode();
+
+        var listTodosResponse = await client.GetAsync($"/api/todos?listId={list.Id}", cancellationToken);
+        var listTodos = await listTodosResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken);
+        Assert.Equal(3, listTodos!.Count);
+
+        var listsResponse = await client.GetAsync("/api/lists", cancellationToken);
+        var lists = await listsResponse.Content.ReadFromJsonAsync<TodoListsResponse>(JsonOptions, cancellationToken);
+        Assert.Equal(2, Assert.Single(lists!.Lists).OpenCount);
+        Assert.Equal(2, lists.OpenCount);
+
+        // Deleting the list keeps its todos, outside any list.
+        var deleteResponse = await client.DeleteAsync($"/api/lists/{list.Id}", cancellationToken);
+        Assert.Equal(HttpStatusCode.NoContent, deleteResponse.StatusCode);
+
+        var allResponse = await client.GetAsync("/api/todos?pageSize=100", cancellationToken);
+        var all = await allResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken);
+        Assert.Equal(3, all!.Count);
+        Assert.All(all, item => Assert.Null(item.ListId));
+    }
+
+    [Fact]
+    public async Task CompletingRepeatingTodoCreatesNextOccurrenceAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        // A Monday far enough ahead that the next weekly occurrence is in the same week.
+        var today = DateTime.UtcNow.Date;
+        var monday = new DateTimeOffset(today.AddDays(((int)DayOfWeek.Monday - (int)today.DayOfWeek + 7) % 7 + 7), TimeSpan.Zero);
+
+        var createResponse = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest(
+                "Take out the bins",
+                null,
+                monday,
+                null,
+                Tags: ["chores"],
+                Repeat: new TodoRepeatRule("weekly", Weekdays: ["thursday", "monday", "monday"])),
+            cancellationToken);
+        Assert.Equal(HttpStatusCode.Created, createResponse.StatusCode);
+
+        var created = await createResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.Equal(new[] { "monday", "thursday" }, created!.Repeat!.Weekdays!.ToArray());
+
+        var completeResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{created.Id}",
+            new UpdateTodoRequest(null, null, null, null, true),
+            cancellationToken);
+        var completed = await completeResponse.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.True(completed!.IsCompleted);
+        Assert.Null(completed.Repeat);
+
+        var openResponse = await client.GetAsync("/api/todos?completed=false", cancellationToken);
+        var next = Assert.Single((await openResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken))!);
+        Assert.Equal("Take out the bins", next.Title);
+        Assert.Equal(monday.AddDays(3), next.DueDate);
+        Assert.True(next.IsAllDay);
+        Assert.Equal(new[] { "chores" }, next.Tags.ToArray());
+        Assert.Equal("weekly", next.Repeat!.Frequency);
+
+        // Reopening and completing the old todo again doesn't start a second series.
+        _ = await client.PatchAsJsonAsync(
+            $"/api/todos/{created.Id}",
+            new UpdateTodoRequest(null, null, null, null, false),
+            cancellationToken);
+        _ = await client.PatchAsJsonAsync(
+            $"/api/todos/{created.Id}",
+            new UpdateTodoRequest(null, null, null, null, true),
+            cancellationToken);
+
+        var allResponse = await client.GetAsync("/api/todos?pageSize=100", cancellationToken);
+        var all = await allResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken);
+        Assert.Equal(2, all!.Count);
+
+        // Monthly by weekday keeps the nth weekday of the due date.
+        var updateResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{next.Id}",
+            new UpdateTodoRequest(null, null, null, null, null, Repeat: new TodoRepeatRule("monthlyByWeekday")),
+            cancellationToken);
+        updateResponse.EnsureSuccessStatusCode();
+
+        var batchResponse = await client.PostAsJsonAsync(
+            "/api/todos/batch",
+            new BatchTodosRequest([new BatchTodoUpdate(next.Id, new UpdateTodoRequest(null, null, null, null, true))], null),
+            cancellationToken);
+        batchResponse.EnsureSuccessStatusCode();
+
+        var monthlyResponse = await client.GetAsync("/api/todos?completed=false", cancellationToken);
+        var monthly = Assert.Single((await monthlyResponse.Content.ReadFromJsonAsync<List<TodoItemDto>>(JsonOptions, cancellationToken))!);
+        var thursday = next.DueDate!.Value;
+        var monthlyDue = monthly.DueDate!.Value;
+        var week = (thursday.Day - 1) / 7;
+        Assert.Equal(DayOfWeek.Thursday, monthlyDue.DayOfWeek);
+        Assert.Equal(thursday.AddMonths(1).Month, monthlyDue.Month);
+        if (week < 4)
+        {
+            Assert.Equal(week, (monthlyDue.Day - 1) / 7);
+        }
+        else
+        {
+            Assert.NotEqual(monthlyDue.Month, monthlyDue.AddDays(7).Month);
+        }
+
+        var invalidResponse = await client.PatchAsJsonAsync(
+            $"/api/todos/{monthly.Id}",
+            new UpdateTodoRequest(null, null, null, null, null, Repeat: new TodoRepeatRule("daily", Interval: 0)),
+            cancellationToken);
+        var problem = await invalidResponse.Content.ReadFromJsonAsync<ValidationProblem>(JsonOptions, cancellationToken);
+        Assert.Equal(HttpStatusCode.BadRequest, invalidResponse.StatusCode);
+        Assert.True(problem!.Errors.ContainsKey("repeat"));
+    }
+
+    [Fact]
+    public async Task OpenApiDocumentDescribesTodoResponsesAsync()
+    {
+        var cancellationToken = TestContext.Current.CancellationToken;
+        var databaseName = $"todos_{Guid.NewGuid():N}";
+
+        using var factory = CreateFactory(databaseName);
+        using var client = factory.CreateClient();
+
+        var response = await client.GetAsync("/openapi/v1.json", cancellationToken);
+        response.EnsureSuccessStatusCode();
+
+        using var document = JsonDocument.Parse(await response.Content.ReadAsStringAsync(cancellationToken));
+        var root = document.RootElement;
+
+        Assert.True(root.GetProperty("components").GetProperty("schemas").TryGetProperty("TodoItemDto", out _));
+
+        var listResponse = root.GetProperty("paths").GetProperty("/api/todos").GetProperty("get")
+            .GetProperty("responses").GetProperty("200");
+        Assert.True(listResponse.GetProperty("headers").TryGetProperty("X-Total-Count", out _));
+
+        var createResponses = root.GetProperty("paths").GetProperty("/api/todos").GetProperty("post")
+            .GetProperty("responses");
+        Assert.True(createResponses.TryGetProperty("201", out _));
+        Assert.True(createResponses.TryGetProperty("400", out _));
+    }
+
+    private static Task<TodoItemDto> CreateTodoAsync(HttpClient client, string title, CancellationToken cancellationToken) =>
+        CreateTodoAsync(client, title, null, cancellationToken);
+
+    private static async Task<TodoItemDto> CreateTodoAsync(
+        HttpClient client,
+        string title,
+        int? sortOrder,
+        CancellationToken cancellationToken)
+    {
+        var response = await client.PostAsJsonAsync(
+            "/api/todos",
+            new CreateTodoRequest(title, null, null, sortOrder),
+            cancellationToken);
+
+        Assert.Equal(HttpStatusCode.Created, response.StatusCode);
+
+        var created = await response.Content.ReadFromJsonAsync<TodoItemDto>(JsonOptions, cancellationToken);
+        Assert.NotNull(created);
+
+        return created!;
+    }
+
+    private static async Task<TodoEvent> ReadTodoEventAsync(StreamReader reader, CancellationToken cancellationToken)
+    {
+        while (await reader.ReadLineAsync(cancellationToken) is { } line)
+        {
+            if (line.StartsWith("data: ", StringComparison.Ordinal))
+            {
+                var todoEvent = JsonSerializer.Deserialize<TodoEvent>(line["data: ".Length..], JsonOptions);
+                Assert.NotNull(todoEvent);
+
+                return todoEvent!;
+            }
+        }
+
+        throw new InvalidOperationException("The event stream ended.");
+    }
+
     private WebApplicationFactory<Program> CreateFactory(string databaseName)
     {
         var connectionString = BuildConnectionString(databaseName);
@@ -185,7 +902,16 @@ public class TodosApiTests : IClassFixture<MsSqlFixture>
         return builder.ConnectionString;
     }
 
-    private sealed record CreateTodoRequest(string? Title, string? Notes, DateTimeOffset? DueDate, int? SortOrder);
+    private sealed record CreateTodoRequest(
+        string? Title,
+        string? Notes,
+        DateTimeOffset? DueDate,
+        int? SortOrder,
+        bool? IsAllDay = null,
+        List<string>? Tags = null,
+        string? Priority = null,
+        int? ListId = null,
+        TodoRepeatRule? Repeat = null);
 
     private sealed record UpdateTodoRequest(
         string? Title,
@@ -193,7 +919,21 @@ public class TodosApiTests : IClassFixture<MsSqlFixture>
         DateTimeOffset? DueDate,
         int? SortOrder,
         bool? IsCompleted,
-        bool ClearDueDate = false);
+        bool ClearDueDate = false,
+        bool? IsAllDay = null,
+        List<string>? Tags = null,
+        string? Priority = null,
+        bool CompleteChecklist = false,
+        int? ListId = null,
+        bool ClearListId = false,
+        TodoRepeatRule? Repeat = null,
+        bool ClearRepeat = false);
+
+    private sealed record TodoRepeatRule(
+        string Frequency,
+        int Interval = 1,
+        List<string>? Weekdays = null,
+        string? TimeZone = null);
 
     private sealed record TodoItemDto(
         int Id,
@@ -202,6 +942,46 @@ public class TodosApiTests : IClassFixture<MsSqlFixture>
         bool IsCompleted,
         int SortOrder,
         DateTimeOffset? DueDate,
+        bool IsAllDay,
+        List<string> Tags,
+        string Priority,
+        int? ListId,
+        TodoRepeatRule? Repeat,
+        int ChecklistCount,
+        int ChecklistCompletedCount,
         DateTimeOffset CreatedAt,
-        DateTimeOffset UpdatedAt);
+        DateTimeOffset UpdatedAt,
+        DateTimeOffset? DeletedAt);
+
+    private sealed record BatchTodoUpdate(int Id, UpdateTodoRequest Changes);
+
+    private sealed record BatchTodosRequest(List<BatchTodoUpdate>? Updates, List<int>? Deletes);
+
+    private sealed record BatchTodosResponse(List<TodoItemDto> Updated, List<int> Deleted);
+
+    private sealed record MoveTodoRequest(int? AfterId, int? BeforeId);
+
+    private sealed record PurgeTodosResponse(int Purged);
+
+    private sealed record TodoTagDto(string Name, int Count);
+
+    private sealed record CreateTodoListRequest(string? Name, string? Color);
+
+    private sealed record TodoListsResponse(List<TodoListDto> Lists, int OpenCount);
+
+    private sealed record TodoListDto(int Id, string Name, string Color, int OpenCount, DateTimeOffset CreatedAt);
+
+    private sealed record CreateChecklistItemRequest(string? Title);
+
+    private sealed record UpdateChecklistItemRequest(string? Title, bool? IsCompleted);
+
+    private sealed record ReorderChecklistRequest(List<int>? ItemIds);
+
+    private sealed record TodoChecklistResponse(TodoItemDto Todo, List<TodoChecklistItemDto> Items, TodoItemDto? Promoted);
+
+    private sealed record TodoChecklistItemDto(int Id, int TodoId, string Title, bool IsCompleted, int SortOrder);
+
+    private sealed record ValidationProblem(int Status, Dictionary<string, string[]> Errors, string? TraceId);
+
+    private sealed record TodoEvent(string Type, List<TodoItemDto> Todos, List<int> Ids);
 }
@@ -1,3 +1,6 @@
+using System.Diagnostics;
+using System.Text.Json;
+using System.Text.Json.Serialization;
 using Microsoft.EntityFrameworkCore;
 using Scalar.AspNetCore;
 
@@ -7,23 +10,44 @@ var builder = WebApplication.CreateBuilder(args);
 builder.AddServiceDefaults();
 
 // Add services to the container.
-builder.Services.AddProblemDetails();
+// Every error response carries the trace id so users can quote it when reporting a failure.
+builder.Services.AddProblemDetails(options =>
+{
+    options.CustomizeProblemDetails = context =>
+        context.ProblemDetails.Extensions.TryAdd(
+            "traceId",
+            Activity.Current?.Id ?? context.HttpContext.TraceIdentifier);
+});
+
+// Reject numbers sent as strings so the OpenAPI document describes them as plain integers, and
+// send enums by name so the document lists their values.
+builder.Services.ConfigureHttpJsonOptions(options =>
+{
+    options.SerializerOptions.NumberHandling = JsonNumberHandling.Strict;
+    options.SerializerOptions.Converters.Add(
+        new JsonStringEnumConverter(JsonNamingPolicy.CamelCase, allowIntegerValues: false));
+});
 
 // Learn more about configuring OpenAPI at https://aka.ms/aspnet/openapi
 builder.Services.AddOpenApi();
 
 builder.AddSqlServerDbContext<TodoDbContext>("database");
 
+builder.Services.AddSingleton<TodoEventHub>();
+
 var app = builder.Build();
 
 // Configure the HTTP request pipeline.
 app.UseExceptionHandler();
 
+// Turns bodiless error results such as NotFound() into problem details.
+app.UseStatusCodePages();
+
 if (app.Environment.IsDevelopment())
 {
     app.MapOpenApi();
     app.MapScalarApiReference();
-    app.MapGet("/scalar", () => Results.Redirect("/scalar/v1"));
+    app.MapGet("/scalar", () => Results.Redirect("/scalar/v1")).ExcludeFromDescription();
 }
 
 app.MapDefaultEndpoints();
@@ -42,6 +66,8 @@ static async Task EnsureDatabaseCreatedAsync(IServiceProvider services)
     var dbContext = scope.ServiceProvider.GetRequiredService<TodoDbContext>();
     await dbContext.Database.EnsureCreatedAsync();
 
+    // EnsureCreated leaves an existing database alone, so columns and tables added since are
+    // patched in, each in its own batch.
     await dbContext.Database.ExecuteSqlRawAsync(
         """
         IF COL_LENGTH('Todos', 'DeletedAt') IS NULL
@@ -49,6 +75,104 @@ static async Task EnsureDatabaseCreatedAsync(IServiceProvider services)
             ALTER TABLE [Todos] ADD [DeletedAt] datetimeoffset NULL;
         END
         """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF COL_LENGTH('Todos', 'IsAllDay') IS NULL
+        BEGIN
+            ALTER TABLE [Todos] ADD [IsAllDay] bit NOT NULL DEFAULT CAST(0 AS bit);
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF COL_LENGTH('Todos', 'Tags') IS NULL
+        BEGIN
+            ALTER TABLE [Todos] ADD [Tags] nvarchar(max) NOT NULL DEFAULT N'[]';
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF COL_LENGTH('Todos', 'Priority') IS NULL
+        BEGIN
+            ALTER TABLE [Todos] ADD [Priority] int NOT NULL DEFAULT 0;
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF COL_LENGTH('Todos', 'ChecklistCount') IS NULL
+        BEGIN
+            ALTER TABLE [Todos] ADD
+                [ChecklistCount] int NOT NULL DEFAULT 0,
+                [ChecklistCompletedCount] int NOT NULL DEFAULT 0;
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF OBJECT_ID('TodoChecklistItems') IS NULL
+        BEGIN
+            CREATE TABLE [TodoChecklistItems] (
+                [Id] int NOT NULL IDENTITY,
+                [TodoId] int NOT NULL,
+                [Title] nvarchar(200) NOT NULL,
+                [IsCompleted] bit NOT NULL DEFAULT CAST(0 AS bit),
+                [SortOrder] int NOT NULL,
+                [CreatedAt] datetimeoffset NOT NULL DEFAULT (SYSUTCDATETIME()),
+                CONSTRAINT [PK_TodoChecklistItems] PRIMARY KEY ([Id]),
+                CONSTRAINT [FK_TodoChecklistItems_Todos_TodoId] FOREIGN KEY ([TodoId])
+                    REFERENCES [Todos] ([Id]) ON DELETE CASCADE
+            );
+            CREATE INDEX [IX_TodoChecklistItems_TodoId_SortOrder]
+                ON [TodoChecklistItems] ([TodoId], [SortOrder]);
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF OBJECT_ID('TodoLists') IS NULL
+        BEGIN
+            CREATE TABLE [TodoLists] (
+                [Id] int NOT NULL IDENTITY,
+                [Name] nvarchar(60) NOT NULL,
+                [Color] nvarchar(7) NOT NULL,
+                [CreatedAt] datetimeoffset NOT NULL DEFAULT (SYSUTCDATETIME()),
+                CONSTRAINT [PK_TodoLists] PRIMARY KEY ([Id])
+            );
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF COL_LENGTH('Todos', 'ListId') IS NULL
+        BEGIN
+            ALTER TABLE [Todos] ADD [ListId] int NULL
+                CONSTRAINT [FK_Todos_TodoLists_ListId] FOREIGN KEY
+                    REFERENCES [TodoLists] ([Id]) ON DELETE SET NULL;
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF NOT EXISTS (SELECT 1 FROM sys.indexes WHERE name = 'IX_Todos_ListId')
+        BEGIN
+            CREATE INDEX [IX_Todos_ListId] ON [Todos] ([ListId]);
+        END
+        """);
+
+    await dbContext.Database.ExecuteSqlRawAsync(
+        """
+        IF COL_LENGTH('Todos', 'RepeatFrequency') IS NULL
+        BEGIN
+            ALTER TABLE [Todos] ADD
+                [RepeatFrequency] int NULL,
+                [RepeatInterval] int NOT NULL DEFAULT 1,
+                [RepeatWeekdays] nvarchar(max) NOT NULL DEFAULT N'[]',
+                [RepeatTimeZone] nvarchar(64) NULL;
+        END
+        """);
 }
 
 public partial class Program;
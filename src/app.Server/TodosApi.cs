@@ -1,18 +1,46 @@
 using System.Globalization;
+using System.Runtime.CompilerServices;
+using System.Threading.Channels;
+using Microsoft.AspNetCore.Http.HttpResults;
+using Microsoft.AspNetCore.Mvc;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.OpenApi;
 
 public static class TodosApi
 {
+    private const string TotalCountHeader = "X-Total-Count";
+
+    // Manual order keeps this much room between neighbours so a move usually rewrites one row.
+    private const int SortOrderGap = 1024;
+
+    internal const int TitleMaxLength = 200;
+    internal const int NotesMaxLength = 2000;
+    internal const int TagMaxLength = 40;
+    internal const int MaxTagsPerTodo = 20;
+    internal const int MaxChecklistItems = 100;
+    internal const int ListNameMaxLength = 60;
+    internal const int ListColorLength = 7;
+    internal const int TimeZoneMaxLength = 64;
+    internal const int MaxRepeatInterval = 365;
+
+    private const string DefaultListColor = "#64748b";
+
     public static IEndpointRouteBuilder MapTodosApi(this IEndpointRouteBuilder endpoints)
     {
         var api = endpoints.MapGroup("/api");
         var todos = api.MapGroup("/todos");
+        var trash = todos.MapGroup("/trash");
+        var checklist = todos.MapGroup("{id:int}/checklist");
+        var lists = api.MapGroup("/lists");
 
-        todos.MapGet("", async (
+        todos.MapGet("", async Task<Ok<List<TodoItemDto>>> (
             TodoDbContext dbContext,
             HttpContext httpContext,
             bool? completed,
             string? q,
+            string? tag,
+            int? listId,
+            bool deleted = false,
             int page = 1,
             int pageSize = 20,
             string? sort = null) =>
@@ -20,9 +48,12 @@ public static class TodosApi
             page = page < 1 ? 1 : page;
             pageSize = pageSize < 1 ? 20 : Math.Min(pageSize, 100);
 
-            IQueryable<TodoItem> query = dbContext.Todos
-                .AsNoTracking()
-                .Where(item => item.DeletedAt == null);
+            IQueryable<TodoItem> query = dbContext.Todos.AsNoTracking();
+
+            // The trash lists soft-deleted todos; every other view hides them.
+            query = deleted
+                ? query.Where(item => item.DeletedAt != null)
+                : query.Where(item => item.DeletedAt == null);
 
             if (completed.HasValue)
             {
@@ -43,6 +74,17 @@ public static class TodosApi
                     (item.Notes != null && EF.Functions.Like(item.Notes, pattern)));
             }
 
+            var tagFilter = NormalizeTags([tag])?.FirstOrDefault();
+            if (tagFilter is not null)
+            {
+                query = query.Where(item => item.Tags.Contains(tagFilter));
+            }
+
+            if (listId.HasValue)
+            {
+                query = query.Where(item => item.ListId == listId.Value);
+            }
+
             var totalCount = await query.CountAsync();
 
             query = ApplySort(query, sort);
@@ -54,100 +96,359 @@ public static class TodosApi
 
             var result = items.Select(TodoItemDto.FromEntity).ToList();
 
-            httpContext.Response.Headers["X-Total-Count"] = totalCount.ToString(CultureInfo.InvariantCulture);
+            httpContext.Response.Headers[TotalCountHeader] = totalCount.ToString(CultureInfo.InvariantCulture);
+
+            return TypedResults.Ok(result);
+        })
+        .AddOpenApiOperationTransformer((operation, _, _) =>
+        {
+            if (operation.Responses?.TryGetValue("200", out var response) == true && response is OpenApiResponse okResponse)
+            {
+                okResponse.Headers ??= new Dictionary<string, IOpenApiHeader>();
+                okResponse.Headers[TotalCountHeader] = new OpenApiHeader
+                {
+                    Description = "Total number of todos matching the filters, before paging.",
+                    Schema = new OpenApiSchema { Type = JsonSchemaType.Integer, Format = "int32" }
+                };
+            }
+
+            return Task.CompletedTask;
+        });
+
+        // Every tag on a live todo with how many todos carry it, for autocomplete and filter menus.
+        todos.MapGet("tags", async Task<Ok<List<TodoTagDto>>> (TodoDbContext dbContext) =>
+        {
+            var tagLists = await dbContext.Todos.AsNoTracking()
+                .Where(item => item.DeletedAt == null)
+                .Select(item => item.Tags)
+                .ToListAsync();
+
+            var result = tagLists
+                .SelectMany(tags => tags)
+                .GroupBy(tag => tag)
+                .Select(group => new TodoTagDto(group.Key, group.Count()))
+                .OrderBy(tag => tag.Name, StringComparer.Ordinal)
+                .ToList();
 
-            return Results.Ok(result);
+            return TypedResults.Ok(result);
         });
 
-        todos.MapGet("{id:int}", async (TodoDbContext dbContext, int id) =>
+        todos.MapGet("{id:int}", async Task<Results<Ok<TodoItemDto>, NotFound>> (
+            TodoDbContext dbContext,
+            HttpContext httpContext,
+            int id) =>
         {
             var item = await dbContext.Todos.AsNoTracking()
                 .FirstOrDefaultAsync(todo => todo.Id == id && todo.DeletedAt == null);
 
-            return item is null ? Results.NotFound() : Results.Ok(TodoItemDto.FromEntity(item));
+            if (item is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            httpContext.Response.Headers.ETag = ToETag(item);
+
+            return TypedResults.Ok(TodoItemDto.FromEntity(item));
         });
 
-        todos.MapPost("", async (TodoDbContext dbContext, CreateTodoRequest request) =>
+        // Streams every saved change. Each connection starts with a "ready" event so clients know when
+        // to refetch whatever they missed while disconnected.
+        todos.MapGet("events", (TodoEventHub events, CancellationToken cancellationToken) =>
+            TypedResults.ServerSentEvents(events.SubscribeAsync(cancellationToken)));
+
+        todos.MapPost("", async Task<Results<Created<TodoItemDto>, ValidationProblem>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            CreateTodoRequest request) =>
         {
-            var title = request.Title?.Trim();
+            var title = request.Title?.Trim() ?? string.Empty;
+            var notes = request.Notes?.Trim();
+            var tags = NormalizeTags(request.Tags) ?? [];
+            var knownListIds = await FindListIdsAsync(dbContext, [request.ListId]);
 
-            if (string.IsNullOrWhiteSpace(title))
+            var errors = ValidateFields(title, notes, tags, request.ListId, knownListIds, request.Repeat);
+            if (errors is not null)
             {
-                return Results.BadRequest(new { error = "Title is required." });
+                return TypedResults.ValidationProblem(errors);
             }
 
             var now = DateTimeOffset.UtcNow;
+            var isAllDay = request.DueDate.HasValue && (request.IsAllDay ?? true);
+
+            // New todos go to the top of the manual order unless the client picked a position.
+            var sortOrder = request.SortOrder;
+            if (sortOrder is null)
+            {
+                var topSortOrder = await dbContext.Todos
+                    .Where(item => item.DeletedAt == null)
+                    .MinAsync(item => (int?)item.SortOrder);
+
+                sortOrder = topSortOrder.HasValue ? topSortOrder.Value - SortOrderGap : 0;
+            }
 
             var item = new TodoItem
             {
                 Title = title,
-                Notes = request.Notes?.Trim(),
-                DueDate = request.DueDate,
-                SortOrder = request.SortOrder ?? 0,
+                Notes = notes,
+                DueDate = NormalizeDueDate(request.DueDate, isAllDay),
+                IsAllDay = isAllDay,
+                Tags = tags,
+                Priority = request.Priority ?? TodoPriority.None,
+                ListId = request.ListId,
+                SortOrder = sortOrder.Value,
                 IsCompleted = false,
                 CreatedAt = now,
                 UpdatedAt = now
             };
+            SetRepeat(item, request.Repeat);
 
             dbContext.Todos.Add(item);
             await dbContext.SaveChangesAsync();
 
-            return Results.Created($"/api/todos/{item.Id}", TodoItemDto.FromEntity(item));
+            var created = TodoItemDto.FromEntity(item);
+            events.Publish(new TodoEvent("created", [created], []));
+
+            return TypedResults.Created($"/api/todos/{item.Id}", created);
         });
 
-        todos.MapPatch("{id:int}", async (TodoDbContext dbContext, int id, UpdateTodoRequest request) =>
+        todos.MapPatch("{id:int}", async Task<Results<Ok<TodoItemDto>, NotFound, ValidationProblem, JsonHttpResult<TodoItemDto>>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            HttpContext httpContext,
+            int id,
+            UpdateTodoRequest request,
+            [FromHeader(Name = "If-Match")] string? ifMatch) =>
         {
             var item = await dbContext.Todos.FindAsync(id);
 
             if (item is null || item.DeletedAt != null)
             {
-                return Results.NotFound();
+                return TypedResults.NotFound();
+            }
+
+            // A client that read an older version gets the current one back to resolve the conflict.
+            if (!MatchesETag(item, ifMatch))
+            {
+                return TypedResults.Json(TodoItemDto.FromEntity(item), statusCode: StatusCodes.Status412PreconditionFailed);
+            }
+
+            var knownListIds = await FindListIdsAsync(dbContext, [request.ListId]);
+            var now = DateTimeOffset.UtcNow;
+            var wasCompleted = item.IsCompleted;
+
+            var errors = ApplyUpdate(item, request, now, knownListIds);
+            if (errors is not null)
+            {
+                return TypedResults.ValidationProblem(errors);
+            }
+
+            if (request.CompleteChecklist && request.IsCompleted == true)
+            {
+                await CompleteChecklistsAsync(dbContext, [item]);
+            }
+
+            var next = wasCompleted ? null : CreateNextOccurrence(item, now);
+            if (next is not null)
+            {
+                dbContext.Todos.Add(next);
+            }
+
+            await dbContext.SaveChangesAsync();
+
+            var updated = TodoItemDto.FromEntity(item);
+            events.Publish(new TodoEvent("updated", [updated], []));
+
+            if (next is not null)
+            {
+                events.Publish(new TodoEvent("created", [TodoItemDto.FromEntity(next)], []));
+            }
+
+            httpContext.Response.Headers.ETag = ToETag(item);
+
+            return TypedResults.Ok(updated);
+        })
+        .Produces<TodoItemDto>(StatusCodes.Status412PreconditionFailed);
+
+        todos.MapPost("batch", async Task<Results<Ok<BatchTodosResponse>, ProblemHttpResult, ValidationProblem>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            BatchTodosRequest request) =>
+        {
+            var updates = request.Updates ?? [];
+            var deletes = request.Deletes ?? [];
+
+            if (updates.Count == 0 && deletes.Count == 0)
+            {
+                return TypedResults.Problem("The batch is empty.", statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            var ids = updates.Select(update => update.Id).Concat(deletes).ToList();
+            if (ids.Distinct().Count() != ids.Count)
+            {
+                return TypedResults.Problem(
+                    "Each todo can only appear once in a batch.",
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            var items = await dbContext.Todos
+                .Where(item => ids.Contains(item.Id) && item.DeletedAt == null)
+                .ToDictionaryAsync(item => item.Id);
+
+            var missingId = ids.FirstOrDefault(id => !items.ContainsKey(id), -1);
+            if (missingId != -1)
+            {
+                return TypedResults.Problem($"Todo {missingId} was not found.", statusCode: StatusCodes.Status404NotFound);
             }
 
-            if (request.Title is not null)
+            // Every change is validated before anything is saved, and the single SaveChanges call
+            // commits the whole batch in one database transaction.
+            var now = DateTimeOffset.UtcNow;
+            var knownListIds = await FindListIdsAsync(dbContext, updates.Select(update => update.Changes.ListId));
+            var openIds = items.Values.Where(item => !item.IsCompleted).Select(item => item.Id).ToHashSet();
+
+            for (var index = 0; index < updates.Count; index++)
             {
-                var title = request.Title.Trim();
-                if (string.IsNullOrWhiteSpace(title))
+                var errors = ApplyUpdate(items[updates[index].Id], updates[index].Changes, now, knownListIds);
+                if (errors is not null)
                 {
-                    return Results.BadRequest(new { error = "Title is required." });
+                    // Keyed by position so the client can tell which update each error belongs to.
+                    return TypedResults.ValidationProblem(errors.ToDictionary(
+                        error => $"updates[{index}].changes.{error.Key}",
+                        error => error.Value));
                 }
+            }
 
-                item.Title = title;
+            var completing = updates
+                .Where(update => update.Changes.CompleteChecklist && update.Changes.IsCompleted == true)
+                .Select(update => items[update.Id])
+                .ToList();
+
+            if (completing.Count > 0)
+            {
+                await CompleteChecklistsAsync(dbContext, completing);
             }
 
-            if (request.Notes is not null)
+            var occurrences = updates
+                .Where(update => openIds.Contains(update.Id))
+                .Select(update => CreateNextOccurrence(items[update.Id], now))
+                .OfType<TodoItem>()
+                .ToList();
+
+            dbContext.Todos.AddRange(occurrences);
+
+            foreach (var id in deletes)
             {
-                item.Notes = request.Notes.Trim();
+                items[id].DeletedAt = now;
+                items[id].UpdatedAt = now;
             }
 
-            if (request.DueDate.HasValue || request.ClearDueDate)
+            await dbContext.SaveChangesAsync();
+
+            var updated = updates.Select(update => TodoItemDto.FromEntity(items[update.Id])).ToList();
+
+            if (updated.Count > 0)
             {
-                item.DueDate = request.ClearDueDate ? null : request.DueDate;
+                events.Publish(new TodoEvent("updated", updated, []));
             }
 
-            if (request.SortOrder.HasValue)
+            if (occurrences.Count > 0)
             {
-                item.SortOrder = request.SortOrder.Value;
+                events.Publish(new TodoEvent("created", occurrences.Select(TodoItemDto.FromEntity).ToList(), []));
             }
 
-            if (request.IsCompleted.HasValue)
+            if (deletes.Count > 0)
             {
-                item.IsCompleted = request.IsCompleted.Value;
+                events.Publish(new TodoEvent(
+                    "deleted",
+                    deletes.Select(id => TodoItemDto.FromEntity(items[id])).ToList(),
+                    deletes));
             }
 
-            item.UpdatedAt = DateTimeOffset.UtcNow;
+            return TypedResults.Ok(new BatchTodosResponse(updated, deletes));
+        })
+        .ProducesProblem(StatusCodes.Status400BadRequest)
+        .ProducesProblem(StatusCodes.Status404NotFound);
+
+        todos.MapPost("{id:int}/move", async Task<Results<Ok<List<TodoItemDto>>, ProblemHttpResult>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id,
+            MoveTodoRequest request) =>
+        {
+            if (request.AfterId is null && request.BeforeId is null)
+            {
+                return TypedResults.Problem(
+                    "Either afterId or beforeId is required.",
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            if (request.AfterId == id || request.BeforeId == id)
+            {
+                return TypedResults.Problem(
+                    "A todo cannot be moved next to itself.",
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            var ids = new[] { id, request.AfterId, request.BeforeId }
+                .OfType<int>()
+                .ToList();
+
+            var items = await dbContext.Todos
+                .Where(item => ids.Contains(item.Id) && item.DeletedAt == null)
+                .ToDictionaryAsync(item => item.Id);
+
+            var missingId = ids.FirstOrDefault(todoId => !items.ContainsKey(todoId), -1);
+            if (missingId != -1)
+            {
+                return TypedResults.Problem($"Todo {missingId} was not found.", statusCode: StatusCodes.Status404NotFound);
+            }
+
+            var item = items[id];
+            var after = request.AfterId is int afterId ? items[afterId] : null;
+            var before = request.BeforeId is int beforeId ? items[beforeId] : null;
+            var now = DateTimeOffset.UtcNow;
+
+            var sortOrder = (after, before) switch
+            {
+                (null, { } next) => (long)next.SortOrder - SortOrderGap,
+                ({ } previous, null) => (long)previous.SortOrder + SortOrderGap,
+                ({ } previous, { } next) when (long)next.SortOrder - previous.SortOrder > 1 =>
+                    ((long)previous.SortOrder + next.SortOrder) / 2,
+                _ => (long?)null
+            };
+
+            List<TodoItem> changed;
+
+            if (sortOrder is long order && order >= int.MinValue && order <= int.MaxValue)
+            {
+                item.SortOrder = (int)order;
+                item.UpdatedAt = now;
+                changed = [item];
+            }
+            else
+            {
+                changed = await RebalanceSortOrderAsync(dbContext, item, after, before, now);
+            }
 
             await dbContext.SaveChangesAsync();
 
-            return Results.Ok(TodoItemDto.FromEntity(item));
-        });
+            var moved = changed.Select(TodoItemDto.FromEntity).ToList();
+            events.Publish(new TodoEvent("updated", moved, []));
 
-        todos.MapDelete("{id:int}", async (TodoDbContext dbContext, int id) =>
+            return TypedResults.Ok(moved);
+        })
+        .ProducesProblem(StatusCodes.Status400BadRequest)
+        .ProducesProblem(StatusCodes.Status404NotFound);
+
+        todos.MapDelete("{id:int}", async Task<Results<NoContent, NotFound>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id) =>
         {
             var item = await dbContext.Todos.FindAsync(id);
             if (item is null || item.DeletedAt != null)
             {
-                return Results.NotFound();
+                return TypedResults.NotFound();
             }
 
             var now = DateTimeOffset.UtcNow;
@@ -156,21 +457,26 @@ public static class TodosApi
 
             await dbContext.SaveChangesAsync();
 
-            return Results.NoContent();
+            events.Publish(new TodoEvent("deleted", [TodoItemDto.FromEntity(item)], [item.Id]));
+
+            return TypedResults.NoContent();
         });
 
-        todos.MapPost("{id:int}/restore", async (TodoDbContext dbContext, int id) =>
+        todos.MapPost("{id:int}/restore", async Task<Results<Ok<TodoItemDto>, NotFound>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id) =>
         {
             var item = await dbContext.Todos.FindAsync(id);
 
             if (item is null)
             {
-                return Results.NotFound();
+                return TypedResults.NotFound();
             }
 
             if (item.DeletedAt == null)
             {
-                return Results.Ok(TodoItemDto.FromEntity(item));
+                return TypedResults.Ok(TodoItemDto.FromEntity(item));
             }
 
             item.DeletedAt = null;
@@ -178,96 +484,1186 @@ public static class TodosApi
 
             await dbContext.SaveChangesAsync();
 
-            return Results.Ok(TodoItemDto.FromEntity(item));
+            var restored = TodoItemDto.FromEntity(item);
+            events.Publish(new TodoEvent("restored", [restored], []));
+
+            return TypedResults.Ok(restored);
         });
 
-        return endpoints;
-    }
+        checklist.MapGet("", async Task<Results<Ok<List<TodoChecklistItemDto>>, NotFound>> (
+            TodoDbContext dbContext,
+            int id) =>
+        {
+            if (!await dbContext.Todos.AnyAsync(item => item.Id == id && item.DeletedAt == null))
+            {
+                return TypedResults.NotFound();
+            }
 
-    private static IQueryable<TodoItem> ApplySort(IQueryable<TodoItem> query, string? sort)
-    {
-        return sort switch
+            var items = await dbContext.ChecklistItems.AsNoTracking()
+                .Where(item => item.TodoId == id)
+                .OrderBy(item => item.SortOrder)
+                .ThenBy(item => item.Id)
+                .ToListAsync();
+
+            return TypedResults.Ok(items.Select(TodoChecklistItemDto.FromEntity).ToList());
+        });
+
+        checklist.MapPost("", async Task<Results<Ok<TodoChecklistResponse>, NotFound, ValidationProblem>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id,
+            CreateChecklistItemRequest request) =>
         {
-            "createdAt" => query.OrderBy(item => item.CreatedAt),
-            "-createdAt" => query.OrderByDescending(item => item.CreatedAt),
-            "title" => query.OrderBy(item => item.Title),
-            "-title" => query.OrderByDescending(item => item.Title),
-            "order" => query.OrderBy(item => item.SortOrder),
-            "-order" => query.OrderByDescending(item => item.SortOrder),
-            "due" => query.OrderBy(item => item.DueDate == null)
-                .ThenBy(item => item.DueDate)
-                .ThenByDescending(item => item.CreatedAt),
-            "-due" => query.OrderBy(item => item.DueDate == null)
-                .ThenByDescending(item => item.DueDate)
-                .ThenByDescending(item => item.CreatedAt),
-            _ => query.OrderByDescending(item => item.CreatedAt)
-        };
-    }
-}
+            var todo = await dbContext.Todos.FirstOrDefaultAsync(item => item.Id == id && item.DeletedAt == null);
+            if (todo is null)
+            {
+                return TypedResults.NotFound();
+            }
 
-record CreateTodoRequest(string? Title, string? Notes, DateTimeOffset? DueDate, int? SortOrder);
+            var title = request.Title?.Trim() ?? string.Empty;
+            var items = await LoadChecklistAsync(dbContext, id);
 
-record UpdateTodoRequest(
-    string? Title,
-    string? Notes,
-    DateTimeOffset? DueDate,
-    int? SortOrder,
-    bool? IsCompleted,
-    bool ClearDueDate = false);
+            var errors = ValidateChecklistTitle(title);
+            if (errors is null && items.Count >= MaxChecklistItems)
+            {
+                errors = new() { ["title"] = [$"A todo can have at most {MaxChecklistItems} checklist items."] };
+            }
 
-record TodoItemDto(
-    int Id,
-    string Title,
-    string? Notes,
-    bool IsCompleted,
-    int SortOrder,
-    DateTimeOffset? DueDate,
-    DateTimeOffset CreatedAt,
-    DateTimeOffset UpdatedAt)
-{
-    public static TodoItemDto FromEntity(TodoItem item) =>
-        new(
-            item.Id,
-            item.Title,
-            item.Notes,
-            item.IsCompleted,
-            item.SortOrder,
-            item.DueDate,
-            item.CreatedAt,
-            item.UpdatedAt);
-}
+            if (errors is not null)
+            {
+                return TypedResults.ValidationProblem(errors);
+            }
 
-class TodoItem
-{
-    public int Id { get; set; }
-    public string Title { get; set; } = string.Empty;
-    public string? Notes { get; set; }
-    public bool IsCompleted { get; set; }
-    public int SortOrder { get; set; }
-    public DateTimeOffset? DueDate { get; set; }
-    public DateTimeOffset? DeletedAt { get; set; }
-    public DateTimeOffset CreatedAt { get; set; }
-    public DateTimeOffset UpdatedAt { get; set; }
-}
+            var item = new TodoChecklistItem
+            {
+                TodoId = id,
+                Title = title,
+                SortOrder = items.Count > 0 ? items[^1].SortOrder + 1 : 0,
+                CreatedAt = DateTimeOffset.UtcNow
+            };
 
-class TodoDbContext : DbContext
-{
-    public TodoDbContext(DbContextOptions<TodoDbContext> options)
-        : base(options)
-    {
-    }
+            dbContext.ChecklistItems.Add(item);
+            items.Add(item);
 
-    public DbSet<TodoItem> Todos => Set<TodoItem>();
+            return TypedResults.Ok(await SaveChecklistAsync(dbContext, events, todo, items));
+        });
 
-    protected override void OnModelCreating(ModelBuilder modelBuilder)
-    {
-        var todo = modelBuilder.Entity<TodoItem>();
-        todo.ToTable("Todos");
-        todo.HasKey(item => item.Id);
-        todo.Property(item => item.Title).HasMaxLength(200).IsRequired();
-        todo.Property(item => item.Notes).HasMaxLength(2000);
-        todo.Property(item => item.CreatedAt).HasDefaultValueSql("SYSUTCDATETIME()");
-        todo.Property(item => item.UpdatedAt).HasDefaultValueSql("SYSUTCDATETIME()");
-        todo.Property(item => item.IsCompleted).HasDefaultValue(false);
+        checklist.MapPatch("{itemId:int}", async Task<Results<Ok<TodoChecklistResponse>, NotFound, ValidationProblem>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id,
+            int itemId,
+            UpdateChecklistItemRequest request) =>
+        {
+            var todo = await dbContext.Todos.FirstOrDefaultAsync(item => item.Id == id && item.DeletedAt == null);
+            if (todo is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var items = await LoadChecklistAsync(dbContext, id);
+            var item = items.Find(entry => entry.Id == itemId);
+            if (item is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var title = request.Title?.Trim();
+            if (title is not null)
+            {
+                var errors = ValidateChecklistTitle(title);
+                if (errors is not null)
+                {
+                    return TypedResults.ValidationProblem(errors);
+                }
+
+                item.Title = title;
+            }
+
+            if (request.IsCompleted.HasValue)
+            {
+                item.IsCompleted = request.IsCompleted.Value;
+            }
+
+            return TypedResults.Ok(await SaveChecklistAsync(dbContext, events, todo, items));
+        });
+
+        checklist.MapDelete("{itemId:int}", async Task<Results<Ok<TodoChecklistResponse>, NotFound>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id,
+            int itemId) =>
+        {
+            var todo = await dbContext.Todos.FirstOrDefaultAsync(item => item.Id == id && item.DeletedAt == null);
+            if (todo is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var items = await LoadChecklistAsync(dbContext, id);
+            var item = items.Find(entry => entry.Id == itemId);
+            if (item is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            dbContext.ChecklistItems.Remove(item);
+            items.Remove(item);
+
+            return TypedResults.Ok(await SaveChecklistAsync(dbContext, events, todo, items));
+        });
+
+        checklist.MapPut("order", async Task<Results<Ok<TodoChecklistResponse>, NotFound, ProblemHttpResult>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id,
+            ReorderChecklistRequest request) =>
+        {
+            var todo = await dbContext.Todos.FirstOrDefaultAsync(item => item.Id == id && item.DeletedAt == null);
+            if (todo is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var items = await LoadChecklistAsync(dbContext, id);
+            var itemIds = request.ItemIds ?? [];
+
+            // The new order has to name every item exactly once, so a stale list can't drop or repeat one.
+            if (itemIds.Count != items.Count
+                || itemIds.Distinct().Count() != itemIds.Count
+                || items.Any(item => !itemIds.Contains(item.Id)))
+            {
+                return TypedResults.Problem(
+                    "The order must list every checklist item of the todo exactly once.",
+                    statusCode: StatusCodes.Status400BadRequest);
+            }
+
+            var ordered = itemIds.Select(itemId => items.First(item => item.Id == itemId)).ToList();
+            for (var position = 0; position < ordered.Count; position++)
+            {
+                ordered[position].SortOrder = position;
+            }
+
+            return TypedResults.Ok(await SaveChecklistAsync(dbContext, events, todo, ordered));
+        })
+        .ProducesProblem(StatusCodes.Status400BadRequest);
+
+        // Turns a checklist item into a todo of its own, carrying over the parent's list, tags and priority.
+        checklist.MapPost("{itemId:int}/promote", async Task<Results<Ok<TodoChecklistResponse>, NotFound>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id,
+            int itemId) =>
+        {
+            var todo = await dbContext.Todos.FirstOrDefaultAsync(item => item.Id == id && item.DeletedAt == null);
+            if (todo is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var items = await LoadChecklistAsync(dbContext, id);
+            var item = items.Find(entry => entry.Id == itemId);
+            if (item is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var topSortOrder = await dbContext.Todos
+                .Where(entry => entry.DeletedAt == null)
+                .MinAsync(entry => (int?)entry.SortOrder);
+
+            var now = DateTimeOffset.UtcNow;
+            var promoted = new TodoItem
+            {
+                Title = item.Title,
+                Tags = [.. todo.Tags],
+                Priority = todo.Priority,
+                ListId = todo.ListId,
+                SortOrder = topSortOrder.HasValue ? topSortOrder.Value - SortOrderGap : 0,
+                IsCompleted = item.IsCompleted,
+                CreatedAt = now,
+                UpdatedAt = now
+            };
+
+            dbContext.Todos.Add(promoted);
+            dbContext.ChecklistItems.Remove(item);
+            items.Remove(item);
+
+            var response = await SaveChecklistAsync(dbContext, events, todo, items);
+
+            var created = TodoItemDto.FromEntity(promoted);
+            events.Publish(new TodoEvent("created", [created], []));
+
+            return TypedResults.Ok(response with { Promoted = created });
+        });
+
+        trash.MapDelete("", async Task<Ok<PurgeTodosResponse>> (TodoDbContext dbContext, TodoEventHub events) =>
+        {
+            // Read the ids first so the event names exactly the todos that were purged.
+            var ids = await dbContext.Todos
+                .Where(item => item.DeletedAt != null)
+                .Select(item => item.Id)
+                .ToListAsync();
+
+            var purged = await dbContext.Todos
+                .Where(item => ids.Contains(item.Id) && item.DeletedAt != null)
+                .ExecuteDeleteAsync();
+
+            if (ids.Count > 0)
+            {
+                events.Publish(new TodoEvent("purged", [], ids));
+            }
+
+            return TypedResults.Ok(new PurgeTodosResponse(purged));
+        });
+
+        trash.MapDelete("{id:int}", async Task<Results<NoContent, NotFound>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int id) =>
+        {
+            var item = await dbContext.Todos.FindAsync(id);
+
+            // Only todos already in the trash can be removed for good.
+            if (item is null || item.DeletedAt == null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            dbContext.Todos.Remove(item);
+            await dbContext.SaveChangesAsync();
+
+            events.Publish(new TodoEvent("purged", [], [id]));
+
+            return TypedResults.NoContent();
+        });
+
+        lists.MapGet("", async Task<Ok<TodoListsResponse>> (TodoDbContext dbContext) =>
+        {
+            var result = await dbContext.Lists.AsNoTracking()
+                .OrderBy(list => list.CreatedAt)
+                .ThenBy(list => list.Id)
+                .ToListAsync();
+
+            var openCounts = await CountOpenTodosAsync(dbContext);
+
+            return TypedResults.Ok(new TodoListsResponse(
+                result.Select(list => TodoListDto.FromEntity(list, openCounts.GetValueOrDefault(list.Id))).ToList(),
+                openCounts.Values.Sum()));
+        });
+
+        lists.MapPost("", async Task<Results<Created<TodoListDto>, ValidationProblem>> (
+            TodoDbContext dbContext,
+            CreateTodoListRequest request) =>
+        {
+            var name = request.Name?.Trim() ?? string.Empty;
+            var color = request.Color?.Trim() ?? DefaultListColor;
+
+            var errors = ValidateList(name, color);
+            if (errors is not null)
+            {
+                return TypedResults.ValidationProblem(errors);
+            }
+
+            var list = new TodoList
+            {
+                Name = name,
+                Color = color.ToLowerInvariant(),
+                CreatedAt = DateTimeOffset.UtcNow
+            };
+
+            dbContext.Lists.Add(list);
+            await dbContext.SaveChangesAsync();
+
+            return TypedResults.Created($"/api/lists/{list.Id}", TodoListDto.FromEntity(list, 0));
+        });
+
+        lists.MapPatch("{listId:int}", async Task<Results<Ok<TodoListDto>, NotFound, ValidationProblem>> (
+            TodoDbContext dbContext,
+            int listId,
+            UpdateTodoListRequest request) =>
+        {
+            var list = await dbContext.Lists.FindAsync(listId);
+            if (list is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var name = request.Name?.Trim();
+            var color = request.Color?.Trim();
+
+            var errors = ValidateList(name, color);
+            if (errors is not null)
+            {
+                return TypedResults.ValidationProblem(errors);
+            }
+
+            if (name is not null)
+            {
+                list.Name = name;
+            }
+
+            if (color is not null)
+            {
+                list.Color = color.ToLowerInvariant();
+            }
+
+            await dbContext.SaveChangesAsync();
+
+            var openCounts = await CountOpenTodosAsync(dbContext);
+
+            return TypedResults.Ok(TodoListDto.FromEntity(list, openCounts.GetValueOrDefault(list.Id)));
+        });
+
+        // Deleting a list keeps its todos; they move out of it, trashed ones included.
+        lists.MapDelete("{listId:int}", async Task<Results<NoContent, NotFound>> (
+            TodoDbContext dbContext,
+            TodoEventHub events,
+            int listId) =>
+        {
+            var list = await dbContext.Lists.FindAsync(listId);
+            if (list is null)
+            {
+                return TypedResults.NotFound();
+            }
+
+            var items = await dbContext.Todos
+                .Where(item => item.ListId == listId)
+                .ToListAsync();
+
+            var now = DateTimeOffset.UtcNow;
+            foreach (var item in items)
+            {
+                item.ListId = null;
+                item.UpdatedAt = now;
+            }
+
+            dbContext.Lists.Remove(list);
+            await dbContext.SaveChangesAsync();
+
+            var moved = items.Where(item => item.DeletedAt == null).Select(TodoItemDto.FromEntity).ToList();
+            if (moved.Count > 0)
+            {
+                events.Publish(new TodoEvent("updated", moved, []));
+            }
+
+            return TypedResults.NoContent();
+        });
+
+        return endpoints;
+    }
+
+    // All-day dues are stored as midnight UTC of the calendar date the client sent, so every
+    // client reads back the same date whatever its time zone.
+    private static DateTimeOffset? NormalizeDueDate(DateTimeOffset? dueDate, bool isAllDay) =>
+        dueDate.HasValue && isAllDay ? new DateTimeOffset(dueDate.Value.Date, TimeSpan.Zero) : dueDate;
+
+    // Tags are case-insensitive labels, so they're stored lowercase without a leading "#" and only once.
+    private static List<string>? NormalizeTags(IEnumerable<string?>? tags) =>
+        tags?
+            .Select(tag => tag?.Trim().TrimStart('#').Trim().ToLowerInvariant() ?? string.Empty)
+            .Where(tag => tag.Length > 0)
+            .Distinct(StringComparer.Ordinal)
+            .ToList();
+
+    // The ETag is the todo's UpdatedAt, so clients can also send back the updatedAt they were shown.
+    private static string ToETag(TodoItem item) =>
+        $"\"{item.UpdatedAt.ToString("O", CultureInfo.InvariantCulture)}\"";
+
+    private static bool MatchesETag(TodoItem item, string? ifMatch)
+    {
+        if (string.IsNullOrWhiteSpace(ifMatch) || ifMatch.Trim() == "*")
+        {
+            return true;
+        }
+
+        return ifMatch
+            .Split(',', StringSplitOptions.TrimEntries | StringSplitOptions.RemoveEmptyEntries)
+            .Any(tag => DateTimeOffset.TryParse(
+                    tag.Trim('"'),
+                    CultureInfo.InvariantCulture,
+                    DateTimeStyles.RoundtripKind,
+                    out var version)
+                && version == item.UpdatedAt);
+    }
+
+    // Field errors are keyed by the camelCase property names so clients can show them next to inputs.
+    private static Dictionary<string, string[]>? ValidateFields(
+        string? title,
+        string? notes,
+        List<string>? tags,
+        int? listId = null,
+        IReadOnlySet<int>? knownListIds = null,
+        TodoRepeatRule? repeat = null)
+    {
+        var errors = new Dictionary<string, string[]>();
+
+        if (title is not null)
+        {
+            if (string.IsNullOrWhiteSpace(title))
+            {
+                errors["title"] = ["Title is required."];
+            }
+            else if (title.Length > TitleMaxLength)
+            {
+                errors["title"] = [$"Title must be {TitleMaxLength} characters or fewer."];
+            }
+        }
+
+        if (notes is not null && notes.Length > NotesMaxLength)
+        {
+            errors["notes"] = [$"Notes must be {NotesMaxLength} characters or fewer."];
+        }
+
+        if (tags is not null)
+        {
+            if (tags.Count > MaxTagsPerTodo)
+            {
+                errors["tags"] = [$"A todo can have at most {MaxTagsPerTodo} tags."];
+            }
+            else if (tags.Any(tag => tag.Length > TagMaxLength))
+            {
+                errors["tags"] = [$"Tags must be {TagMaxLength} characters or fewer."];
+            }
+        }
+
+        if (listId.HasValue && knownListIds?.Contains(listId.Value) != true)
+        {
+            errors["listId"] = ["That list does not exist."];
+        }
+
+        if (repeat is not null)
+        {
+            if (repeat.Interval is < 1 or > MaxRepeatInterval)
+            {
+                errors["repeat"] = [$"A todo can repeat every 1 to {MaxRepeatInterval} days, weeks or months."];
+            }
+            else if (repeat.TimeZone is not null
+                && (repeat.TimeZone.Length > TimeZoneMaxLength || !TimeZoneInfo.TryFindSystemTimeZoneById(repeat.TimeZone, out _)))
+            {
+                errors["repeat"] = ["That time zone is not recognized."];
+            }
+        }
+
+        return errors.Count > 0 ? errors : null;
+    }
+
+    // Only lists that exist are returned, so validation can tell which requested ids are unknown.
+    private static async Task<HashSet<int>> FindListIdsAsync(TodoDbContext dbContext, IEnumerable<int?> listIds)
+    {
+        var ids = listIds.OfType<int>().Distinct().ToList();
+        if (ids.Count == 0)
+        {
+            return [];
+        }
+
+        var found = await dbContext.Lists
+            .Where(list => ids.Contains(list.Id))
+            .Select(list => list.Id)
+            .ToListAsync();
+
+        return [.. found];
+    }
+
+    // Open todos outside the trash per list, keyed by list id; todos in no list count under 0.
+    private static async Task<Dictionary<int, int>> CountOpenTodosAsync(TodoDbContext dbContext)
+    {
+        var counts = await dbContext.Todos
+            .Where(item => item.DeletedAt == null && !item.IsCompleted)
+            .GroupBy(item => item.ListId)
+            .Select(group => new { ListId = group.Key, Count = group.Count() })
+            .ToListAsync();
+
+        return counts.ToDictionary(entry => entry.ListId ?? 0, entry => entry.Count);
+    }
+
+    private static Dictionary<string, string[]>? ValidateList(string? name, string? color)
+    {
+        var errors = new Dictionary<string, string[]>();
+
+        if (name is not null)
+        {
+            if (string.IsNullOrWhiteSpace(name))
+            {
+                errors["name"] = ["Name is required."];
+            }
+            else if (name.Length > ListNameMaxLength)
+            {
+                errors["name"] = [$"Name must be {ListNameMaxLength} characters or fewer."];
+            }
+        }
+
+        if (color is not null
+            && (color.Length != ListColorLength || color[0] != '#' || !color[1..].All(char.IsAsciiHexDigit)))
+        {
+            errors["color"] = ["Color must be a hex color such as #3b82f6."];
+        }
+
+        return errors.Count > 0 ? errors : null;
+    }
+
+    private static Dictionary<string, string[]>? ValidateChecklistTitle(string title)
+    {
+        if (string.IsNullOrWhiteSpace(title))
+        {
+            return new() { ["title"] = ["Title is required."] };
+        }
+
+        if (title.Length > TitleMaxLength)
+        {
+            return new() { ["title"] = [$"Title must be {TitleMaxLength} characters or fewer."] };
+        }
+
+        return null;
+    }
+
+    private static Task<List<TodoChecklistItem>> LoadChecklistAsync(TodoDbContext dbContext, int todoId) =>
+        dbContext.ChecklistItems
+            .Where(item => item.TodoId == todoId)
+            .OrderBy(item => item.SortOrder)
+            .ThenBy(item => item.Id)
+            .ToListAsync();
+
+    /// <summary>
+    /// Saves a checklist change together with the todo's progress counts. The todo's UpdatedAt stays as it
+    /// was, so ticking off an item never turns someone's open edit of the todo into a conflict.
+    /// </summary>
+    private static async Task<TodoChecklistResponse> SaveChecklistAsync(
+        TodoDbContext dbContext,
+        TodoEventHub events,
+        TodoItem todo,
+        List<TodoChecklistItem> items)
+    {
+        todo.ChecklistCount = items.Count;
+        todo.ChecklistCompletedCount = items.Count(item => item.IsCompleted);
+
+        await dbContext.SaveChangesAsync();
+
+        var updated = TodoItemDto.FromEntity(todo);
+        events.Publish(new TodoEvent("updated", [updated], []));
+
+        return new TodoChecklistResponse(updated, items.Select(TodoChecklistItemDto.FromEntity).ToList());
+    }
+
+    private static async Task CompleteChecklistsAsync(TodoDbContext dbContext, List<TodoItem> todos)
+    {
+        var ids = todos
+            .Where(todo => todo.ChecklistCompletedCount < todo.ChecklistCount)
+            .Select(todo => todo.Id)
+            .ToList();
+
+        if (ids.Count == 0)
+        {
+            return;
+        }
+
+        var open = await dbContext.ChecklistItems
+            .Where(item => ids.Contains(item.TodoId) && !item.IsCompleted)
+            .ToListAsync();
+
+        foreach (var item in open)
+        {
+            item.IsCompleted = true;
+        }
+
+        foreach (var todo in todos)
+        {
+            todo.ChecklistCompletedCount = todo.ChecklistCount;
+        }
+    }
+
+    private static void SetRepeat(TodoItem item, TodoRepeatRule? repeat)
+    {
+        item.RepeatFrequency = repeat?.Frequency;
+        item.RepeatInterval = repeat?.Interval ?? 1;
+        // Only weekly repeats pick their days; the others follow the due date.
+        item.RepeatWeekdays = repeat?.Frequency == TodoRepeatFrequency.Weekly
+            ? [.. (repeat.Weekdays ?? []).Distinct().Order()]
+            : [];
+        item.RepeatTimeZone = repeat?.TimeZone;
+    }
+
+    /// <summary>
+    /// Builds the todo that follows <paramref name="item"/> once it is completed, or returns null when it
+    /// doesn't repeat. The repeat rule moves to the new todo, so reopening and completing the old one
+    /// again doesn't start a second series.
+    /// </summary>
+    private static TodoItem? CreateNextOccurrence(TodoItem item, DateTimeOffset now)
+    {
+        if (!item.IsCompleted || item.RepeatFrequency is null)
+        {
+            return null;
+        }
+
+        var next = new TodoItem
+        {
+            Title = item.Title,
+            Notes = item.Notes,
+            DueDate = GetNextDueDate(item, now),
+            IsAllDay = item.DueDate is null || item.IsAllDay,
+            Tags = [.. item.Tags],
+            Priority = item.Priority,
+            ListId = item.ListId,
+            SortOrder = item.SortOrder,
+            IsCompleted = false,
+            RepeatFrequency = item.RepeatFrequency,
+            RepeatInterval = item.RepeatInterval,
+            RepeatWeekdays = [.. item.RepeatWeekdays],
+            RepeatTimeZone = item.RepeatTimeZone,
+            CreatedAt = now,
+            UpdatedAt = now
+        };
+
+        SetRepeat(item, null);
+
+        return next;
+    }
+
+    /// <summary>
+    /// Works out the next due date on wall-clock values: the calendar date for all-day dues and the
+    /// rule's time zone for timed ones, so a weekly 9:00 stays at 9:00 across daylight saving changes.
+    /// A todo without a due date repeats from the day it was completed.
+    /// </summary>
+    private static DateTimeOffset GetNextDueDate(TodoItem item, DateTimeOffset now)
+    {
+        var zone = TimeZoneInfo.TryFindSystemTimeZoneById(item.RepeatTimeZone ?? string.Empty, out var found)
+            ? found
+            : TimeZoneInfo.Utc;
+        var isAllDay = item.DueDate is null || item.IsAllDay;
+        var today = TimeZoneInfo.ConvertTime(now, zone).Date;
+        var due = item.DueDate switch
+        {
+            null => today,
+            var value when isAllDay => value.UtcDateTime.Date,
+            var value => TimeZoneInfo.ConvertTime(value, zone).DateTime
+        };
+
+        DateTime next;
+        if (item.RepeatFrequency == TodoRepeatFrequency.AfterCompletion)
+        {
+            next = today.AddDays(item.RepeatInterval) + due.TimeOfDay;
+        }
+        else
+        {
+            // Occurrences that are already over are skipped, so completing late still lands in the future.
+            next = due;
+            do
+            {
+                next = StepRepeat(item, next, due);
+            }
+            while (isAllDay ? next.Date <= today : ToInstant(next, zone) <= now);
+        }
+
+        return isAllDay ? new DateTimeOffset(next.Date, TimeSpan.Zero) : ToInstant(next, zone);
+    }
+
+    // One calendar step from `from`. Monthly steps keep the day or weekday of `anchor`, the original due
+    // date, so the 31st comes back after a shorter month.
+    private static DateTime StepRepeat(TodoItem item, DateTime from, DateTime anchor)
+    {
+        var interval = item.RepeatInterval;
+        var month = new DateTime(from.Year, from.Month, 1, 0, 0, 0, from.Kind).AddMonths(interval);
+
+        switch (item.RepeatFrequency)
+        {
+            case TodoRepeatFrequency.Weekly:
+                List<DayOfWeek> weekdays = item.RepeatWeekdays.Count > 0 ? item.RepeatWeekdays : [anchor.DayOfWeek];
+
+                // The rest of this week first, then the first chosen day `interval` weeks on.
+                for (var day = from.AddDays(1); day.DayOfWeek != DayOfWeek.Sunday; day = day.AddDays(1))
+                {
+                    if (weekdays.Contains(day.DayOfWeek))
+                    {
+                        return day;
+                    }
+                }
+
+                var weekStart = from.AddDays(7 * interval - (int)from.DayOfWeek);
+                return Enumerable.Range(0, 7)
+                    .Select(offset => weekStart.AddDays(offset))
+                    .First(day => weekdays.Contains(day.DayOfWeek));
+
+            case TodoRepeatFrequency.MonthlyByDate:
+                return month.AddDays(Math.Min(anchor.Day, DateTime.DaysInMonth(month.Year, month.Month)) - 1)
+                    + from.TimeOfDay;
+
+            case TodoRepeatFrequency.MonthlyByWeekday:
+                // The same nth weekday, where a fifth one means the month's last.
+                var week = (anchor.Day - 1) / 7;
+                if (week < 4)
+                {
+                    var first = month.AddDays(((int)anchor.DayOfWeek - (int)month.DayOfWeek + 7) % 7);
+                    return first.AddDays(7 * week) + from.TimeOfDay;
+                }
+
+                var lastDay = month.AddMonths(1).AddDays(-1);
+                return lastDay.AddDays(-(((int)lastDay.DayOfWeek - (int)anchor.DayOfWeek + 7) % 7))
+                    + from.TimeOfDay;
+
+            default:
+                return from.AddDays(interval);
+        }
+    }
+
+    private static DateTimeOffset ToInstant(DateTime local, TimeZoneInfo zone)
+    {
+        // A time skipped by a daylight saving change moves forward an hour.
+        if (zone.IsInvalidTime(local))
+        {
+            local = local.AddHours(1);
+        }
+
+        return new DateTimeOffset(TimeZoneInfo.ConvertTimeToUtc(local, zone), TimeSpan.Zero);
+    }
+
+    private static Dictionary<string, string[]>? ApplyUpdate(
+        TodoItem item,
+        UpdateTodoRequest request,
+        DateTimeOffset now,
+        IReadOnlySet<int> knownListIds)
+    {
+        var title = request.Title?.Trim();
+        var notes = request.Notes?.Trim();
+        var tags = NormalizeTags(request.Tags);
+
+        var errors = ValidateFields(title, notes, tags, request.ListId, knownListIds, request.Repeat);
+        if (errors is not null)
+        {
+            return errors;
+        }
+
+        if (title is not null)
+        {
+            item.Title = title;
+        }
+
+        if (notes is not null)
+        {
+            item.Notes = notes;
+        }
+
+        if (tags is not null)
+        {
+            item.Tags = tags;
+        }
+
+        if (request.Priority.HasValue)
+        {
+            item.Priority = request.Priority.Value;
+        }
+
+        if (request.ClearListId)
+        {
+            item.ListId = null;
+        }
+        else if (request.ListId.HasValue)
+        {
+            item.ListId = request.ListId.Value;
+        }
+
+        if (request.ClearRepeat)
+        {
+            SetRepeat(item, null);
+        }
+        else if (request.Repeat is not null)
+        {
+            SetRepeat(item, request.Repeat);
+        }
+
+        if (request.ClearDueDate)
+        {
+            item.DueDate = null;
+            item.IsAllDay = false;
+        }
+        else if (request.DueDate.HasValue || (request.IsAllDay.HasValue && item.DueDate.HasValue))
+        {
+            // A due date sent without IsAllDay is a calendar date, as older clients only sent those.
+            item.IsAllDay = request.IsAllDay ?? true;
+            item.DueDate = NormalizeDueDate(request.DueDate ?? item.DueDate, item.IsAllDay);
+        }
+
+        if (request.SortOrder.HasValue)
+        {
+            item.SortOrder = request.SortOrder.Value;
+        }
+
+        if (request.IsCompleted.HasValue)
+        {
+            item.IsCompleted = request.IsCompleted.Value;
+        }
+
+        item.UpdatedAt = now;
+
+        return null;
+    }
+
+    /// <summary>
+    /// Renumbers every live todo with <see cref="SortOrderGap"/> spacing, placing <paramref name="item"/>
+    /// next to its requested neighbour. Only runs once the gap between two neighbours is used up.
+    /// </summary>
+    private static async Task<List<TodoItem>> RebalanceSortOrderAsync(
+        TodoDbContext dbContext,
+        TodoItem item,
+        TodoItem? after,
+        TodoItem? before,
+        DateTimeOffset now)
+    {
+        var others = dbContext.Todos.Where(todo => todo.DeletedAt == null && todo.Id != item.Id);
+        var ordered = await ApplySort(others, "order").ToListAsync();
+
+        var index = after is not null ? ordered.IndexOf(after) + 1 : ordered.IndexOf(before!);
+        ordered.Insert(index, item);
+
+        var changed = new List<TodoItem>();
+
+        for (var position = 0; position < ordered.Count; position++)
+        {
+            var todo = ordered[position];
+            var sortOrder = position * SortOrderGap;
+
+            if (todo.SortOrder != sortOrder || todo == item)
+            {
+                todo.SortOrder = sortOrder;
+                todo.UpdatedAt = now;
+                changed.Add(todo);
+            }
+        }
+
+        return changed;
+    }
+
+    private static IQueryable<TodoItem> ApplySort(IQueryable<TodoItem> query, string? sort)
+    {
+        return sort switch
+        {
+            "createdAt" => query.OrderBy(item => item.CreatedAt),
+            "-createdAt" => query.OrderByDescending(item => item.CreatedAt),
+            "title" => query.OrderBy(item => item.Title).ThenByDescending(item => item.CreatedAt),
+            "-title" => query.OrderByDescending(item => item.Title).ThenByDescending(item => item.CreatedAt),
+            "order" => query.OrderBy(item => item.SortOrder).ThenByDescending(item => item.CreatedAt),
+            "-order" => query.OrderByDescending(item => item.SortOrder).ThenBy(item => item.CreatedAt),
+            "due" => query.OrderBy(item => item.DueDate == null)
+                .ThenBy(item => item.DueDate)
+                .ThenByDescending(item => item.CreatedAt),
+            "-due" => query.OrderBy(item => item.DueDate == null)
+                .ThenByDescending(item => item.DueDate)
+                .ThenByDescending(item => item.CreatedAt),
+            // Within a priority, the soonest due comes first and undated todos last.
+            "priority" => query.OrderBy(item => item.Priority)
+                .ThenBy(item => item.DueDate == null)
+                .ThenBy(item => item.DueDate)
+                .ThenByDescending(item => item.CreatedAt),
+            "-priority" => query.OrderByDescending(item => item.Priority)
+                .ThenBy(item => item.DueDate == null)
+                .ThenBy(item => item.DueDate)
+                .ThenByDescending(item => item.CreatedAt),
+            "deletedAt" => query.OrderBy(item => item.DeletedAt),
+            "-deletedAt" => query.OrderByDescending(item => item.DeletedAt),
+            _ => query.OrderByDescending(item => item.CreatedAt)
+        };
+    }
+}
+
+record CreateTodoRequest(
+    string? Title,
+    string? Notes,
+    DateTimeOffset? DueDate,
+    int? SortOrder,
+    bool? IsAllDay = null,
+    List<string>? Tags = null,
+    TodoPriority? Priority = null,
+    int? ListId = null,
+    TodoRepeatRule? Repeat = null);
+
+record UpdateTodoRequest(
+    string? Title,
+    string? Notes,
+    DateTimeOffset? DueDate,
+    int? SortOrder,
+    bool? IsCompleted,
+    bool ClearDueDate = false,
+    bool? IsAllDay = null,
+    List<string>? Tags = null,
+    TodoPriority? Priority = null,
+    bool CompleteChecklist = false,
+    int? ListId = null,
+    bool ClearListId = false,
+    TodoRepeatRule? Repeat = null,
+    bool ClearRepeat = false);
+
+/// <summary>
+/// How a todo repeats. <see cref="Weekdays"/> only applies to weekly repeats; timed repeats are worked
+/// out in <see cref="TimeZone"/>, an IANA id, or UTC without one.
+/// </summary>
+record TodoRepeatRule(
+    TodoRepeatFrequency Frequency,
+    int Interval = 1,
+    List<DayOfWeek>? Weekdays = null,
+    string? TimeZone = null);
+
+record BatchTodoUpdate(int Id, UpdateTodoRequest Changes);
+
+record BatchTodosRequest(List<BatchTodoUpdate>? Updates, List<int>? Deletes);
+
+record BatchTodosResponse(List<TodoItemDto> Updated, List<int> Deleted);
+
+record MoveTodoRequest(int? AfterId, int? BeforeId);
+
+record PurgeTodosResponse(int Purged);
+
+record TodoTagDto(string Name, int Count);
+
+record CreateTodoListRequest(string? Name, string? Color);
+
+record UpdateTodoListRequest(string? Name, string? Color);
+
+/// <summary>Every list in creation order, with <see cref="OpenCount"/> counting open todos across all of them.</summary>
+record TodoListsResponse(List<TodoListDto> Lists, int OpenCount);
+
+record TodoListDto(int Id, string Name, string Color, int OpenCount, DateTimeOffset CreatedAt)
+{
+    public static TodoListDto FromEntity(TodoList list, int openCount) =>
+        new(list.Id, list.Name, list.Color, openCount, list.CreatedAt);
+}
+
+record CreateChecklistItemRequest(string? Title);
+
+record UpdateChecklistItemRequest(string? Title, bool? IsCompleted);
+
+record ReorderChecklistRequest(List<int>? ItemIds);
+
+/// <summary>
+/// The result of a checklist change: the todo with its new progress counts, its checklist in order and,
+/// after a promotion, the todo the item became.
+/// </summary>
+record TodoChecklistResponse(TodoItemDto Todo, List<TodoChecklistItemDto> Items, TodoItemDto? Promoted = null);
+
+record TodoChecklistItemDto(int Id, int TodoId, string Title, bool IsCompleted, int SortOrder)
+{
+    public static TodoChecklistItemDto FromEntity(TodoChecklistItem item) =>
+        new(item.Id, item.TodoId, item.Title, item.IsCompleted, item.SortOrder);
+}
+
+/// <summary>
+/// A change pushed to event stream subscribers. <see cref="Todos"/> holds the rows as saved and
+/// <see cref="Ids"/> the todos that left the live list ("deleted") or were removed for good ("purged").
+/// </summary>
+record TodoEvent(string Type, List<TodoItemDto> Todos, List<int> Ids);
+
+record TodoItemDto(
+    int Id,
+    string Title,
+    string? Notes,
+    bool IsCompleted,
+    int SortOrder,
+    DateTimeOffset? DueDate,
+    bool IsAllDay,
+    List<string> Tags,
+    TodoPriority Priority,
+    int? ListId,
+    TodoRepeatRule? Repeat,
+    int ChecklistCount,
+    int ChecklistCompletedCount,
+    DateTimeOffset CreatedAt,
+    DateTimeOffset UpdatedAt,
+    DateTimeOffset? DeletedAt)
+{
+    public static TodoItemDto FromEntity(TodoItem item) =>
+        new(
+            item.Id,
+            item.Title,
+            item.Notes,
+            item.IsCompleted,
+            item.SortOrder,
+            item.DueDate,
+            item.IsAllDay,
+            [.. item.Tags],
+            item.Priority,
+            item.ListId,
+            item.RepeatFrequency is { } frequency
+                ? new TodoRepeatRule(frequency, item.RepeatInterval, [.. item.RepeatWeekdays], item.RepeatTimeZone)
+                : null,
+            item.ChecklistCount,
+            item.ChecklistCompletedCount,
+            item.CreatedAt,
+            item.UpdatedAt,
+            item.DeletedAt);
+}
+
+/// <summary>Fans saved todo changes out to every open event stream.</summary>
+sealed class TodoEventHub
+{
+    // A subscriber that stops reading loses its oldest events instead of holding memory forever.
+    private const int SubscriberBufferSize = 256;
+
+    private readonly Lock _gate = new();
+    private readonly HashSet<Channel<TodoEvent>> _subscribers = [];
+
+    public void Publish(TodoEvent todoEvent)
+    {
+        lock (_gate)
+        {
+            foreach (var subscriber in _subscribers)
+            {
+                subscriber.Writer.TryWrite(todoEvent);
+            }
+        }
+    }
+
+    public async IAsyncEnumerable<TodoEvent> SubscribeAsync(
+        [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        var channel = Channel.CreateBounded<TodoEvent>(new BoundedChannelOptions(SubscriberBufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true
+        });
+
+        lock (_gate)
+        {
+            _subscribers.Add(channel);
+        }
+
+        try
+        {
+            yield return new TodoEvent("ready", [], []);
+
+            await foreach (var todoEvent in channel.Reader.ReadAllAsync(cancellationToken))
+            {
+                yield return todoEvent;
+            }
+        }
+        finally
+        {
+            lock (_gate)
+            {
+                _subscribers.Remove(channel);
+            }
+        }
+    }
+}
+
+/// <summary>How important a todo is. Declared from least to most, so sorting by value ranks importance.</summary>
+enum TodoPriority
+{
+    None,
+    Low,
+    Medium,
+    High,
+    Urgent
+}
+
+/// <summary>
+/// How often a todo comes back. Calendar repeats count from the due date; <see cref="AfterCompletion"/>
+/// counts days from when the todo was completed.
+/// </summary>
+enum TodoRepeatFrequency
+{
+    Daily,
+    Weekly,
+    MonthlyByDate,
+    MonthlyByWeekday,
+    AfterCompletion
+}
+
+class TodoItem
+{
+    public int Id { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public string? Notes { get; set; }
+    public bool IsCompleted { get; set; }
+    public int SortOrder { get; set; }
+    public DateTimeOffset? DueDate { get; set; }
+    /// <summary>Whether <see cref="DueDate"/> is a whole day rather than a moment in time.</summary>
+    public bool IsAllDay { get; set; }
+    /// <summary>Lowercase labels, stored as a JSON array so filtering can query them in place.</summary>
+    public List<string> Tags { get; set; } = [];
+    public TodoPriority Priority { get; set; }
+    /// <summary>The list the todo belongs to, or null when it isn't in one.</summary>
+    public int? ListId { get; set; }
+    /// <summary>How the todo repeats, or null when it doesn't. Completing it creates the next occurrence.</summary>
+    public TodoRepeatFrequency? RepeatFrequency { get; set; }
+    public int RepeatInterval { get; set; } = 1;
+    /// <summary>The days a weekly repeat falls on; empty means the due date's weekday.</summary>
+    public List<DayOfWeek> RepeatWeekdays { get; set; } = [];
+    public string? RepeatTimeZone { get; set; }
+    /// <summary>Checklist totals kept next to the todo, so lists can show progress without loading items.</summary>
+    public int ChecklistCount { get; set; }
+    public int ChecklistCompletedCount { get; set; }
+    public DateTimeOffset? DeletedAt { get; set; }
+    public DateTimeOffset CreatedAt { get; set; }
+    public DateTimeOffset UpdatedAt { get; set; }
+}
+
+class TodoList
+{
+    public int Id { get; set; }
+    public string Name { get; set; } = string.Empty;
+    /// <summary>A lowercase <c>#rrggbb</c> color shown next to the list's name.</summary>
+    public string Color { get; set; } = string.Empty;
+    public DateTimeOffset CreatedAt { get; set; }
+}
+
+class TodoChecklistItem
+{
+    public int Id { get; set; }
+    public int TodoId { get; set; }
+    public string Title { get; set; } = string.Empty;
+    public bool IsCompleted { get; set; }
+    public int SortOrder { get; set; }
+    public DateTimeOffset CreatedAt { get; set; }
+}
+
+class TodoDbContext : DbContext
+{
+    public TodoDbContext(DbContextOptions<TodoDbContext> options)
+        : base(options)
+    {
+    }
+
+    public DbSet<TodoItem> Todos => Set<TodoItem>();
+    public DbSet<TodoChecklistItem> ChecklistItems => Set<TodoChecklistItem>();
+    public DbSet<TodoList> Lists => Set<TodoList>();
+
+    protected override void OnModelCreating(ModelBuilder modelBuilder)
+    {
+        var todo = modelBuilder.Entity<TodoItem>();
+        todo.ToTable("Todos");
+        todo.HasKey(item => item.Id);
+        todo.Property(item => item.Title).HasMaxLength(TodosApi.TitleMaxLength).IsRequired();
+        todo.Property(item => item.Notes).HasMaxLength(TodosApi.NotesMaxLength);
+        todo.Property(item => item.CreatedAt).HasDefaultValueSql("SYSUTCDATETIME()");
+        todo.Property(item => item.UpdatedAt).HasDefaultValueSql("SYSUTCDATETIME()");
+        todo.Property(item => item.IsCompleted).HasDefaultValue(false);
+        todo.Property(item => item.IsAllDay).HasDefaultValue(false);
+        todo.PrimitiveCollection(item => item.Tags).IsRequired();
+        todo.Property(item => item.Priority).HasDefaultValue(TodoPriority.None);
+        todo.PrimitiveCollection(item => item.RepeatWeekdays).IsRequired();
+        todo.Property(item => item.RepeatTimeZone).HasMaxLength(TodosApi.TimeZoneMaxLength);
+        todo.HasIndex(item => item.ListId);
+        todo.HasOne<TodoList>()
+            .WithMany()
+            .HasForeignKey(item => item.ListId)
+            .OnDelete(DeleteBehavior.SetNull);
+
+        var list = modelBuilder.Entity<TodoList>();
+        list.ToTable("TodoLists");
+        list.HasKey(item => item.Id);
+        list.Property(item => item.Name).HasMaxLength(TodosApi.ListNameMaxLength).IsRequired();
+        list.Property(item => item.Color).HasMaxLength(TodosApi.ListColorLength).IsRequired();
+        list.Property(item => item.CreatedAt).HasDefaultValueSql("SYSUTCDATETIME()");
+
+        var checklistItem = modelBuilder.Entity<TodoChecklistItem>();
+        checklistItem.ToTable("TodoChecklistItems");
+        checklistItem.HasKey(item => item.Id);
+        checklistItem.Property(item => item.Title).HasMaxLength(TodosApi.TitleMaxLength).IsRequired();
+        checklistItem.Property(item => item.IsCompleted).HasDefaultValue(false);
+        checklistItem.Property(item => item.CreatedAt).HasDefaultValueSql("SYSUTCDATETIME()");
+        checklistItem.HasIndex(item => new { item.TodoId, item.SortOrder });
+        // Checklist items go with their todo when it is purged from the trash.
+        checklistItem.HasOne<TodoItem>()
+            .WithMany()
+            .HasForeignKey(item => item.TodoId)
+            .OnDelete(DeleteBehavior.Cascade);
     }
 }
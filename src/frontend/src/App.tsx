@@ -1,16 +1,67 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useLiveQuery } from "@tanstack/react-db";
 import { useQueryClient } from "@tanstack/react-query";
-import { useNavigate, useSearch } from "@tanstack/react-router";
+import { useNavigate, useParams, useSearch } from "@tanstack/react-router";
+import { RepeatIcon } from "lucide-react";
+import { useDragAndDrop, type Selection } from "react-aria-components";
 import { Checkbox } from "./components/ui/Checkbox";
-import { GridList, GridListItem } from "./components/ui/GridList";
+import { ProgressBar } from "./components/ui/ProgressBar";
+import { GridList, GridListItem, GridListLoadMoreItem } from "./components/ui/GridList";
 import { SearchField } from "./components/ui/SearchField";
+import { Tag, TagGroup } from "./components/ui/TagGroup";
+import { Select, SelectItem } from "./components/ui/Select";
+import { ComboBox, ComboBoxItem } from "./components/ui/ComboBox";
 import { useTheme } from "./lib/theme";
 import { useAppForm } from "./lib/form";
 import { AppTextField, AppSubmitButton } from "./components/form";
 import { queue as toastQueue } from "./components/ui/Toast";
-import { restoreTodo, todoCollection, todosQueryKey, type TodoItem } from "./db/todos";
-import { postApiTodos } from "./client";
+import { clearServerFieldError, setServerFieldErrors, showErrorToast } from "./lib/api-error";
+import {
+  TodoBulkActions,
+  TodoCompletionDialog,
+  TodoListsSidebar,
+  TodoShortcutsDialog,
+  hasOpenChecklistItems,
+} from "./components/todos";
+import {
+  compareTodos,
+  defaultTodoSort,
+  parseTodoSort,
+  todoSortFields,
+  toTodoSort,
+  type TodoSort,
+  type TodoSortField,
+} from "./db/todo-sort";
+import { getPriorityLabel, type TodoPriority } from "./db/todo-priority";
+import { getNextDue } from "./db/todo-repeat";
+import {
+  createTemporaryTodoId,
+  isTemporaryTodoId,
+  getTodoList,
+  restoreTodo,
+  restoreTodos,
+  isRollbackNotified,
+  todosQueryKey,
+  useTodoPagination,
+  useTodoTags,
+  type TodoItem,
+} from "./db/todos";
+import { useOutboxStatus } from "./db/todo-outbox";
+import { useTodoLists } from "./db/todo-lists";
+import type { TodoSearch } from "./lib/todo-search";
+import { useShortcutBindings, useShortcuts } from "./lib/shortcuts";
+import { useRegisterCommands, type Command } from "./lib/commands";
+import { normalizeTags } from "./lib/tags";
+import { getQuickAddTokenKey, parseQuickAdd } from "./lib/quick-add";
+import {
+  formatDue,
+  fromDueFields,
+  getDueStatus,
+  getTimeZoneOptions,
+  setTimeZone,
+  useTimeZone,
+  useTimeZoneSetting,
+} from "./lib/due-date";
 
 type ThemeMode = "light" | "dark" | "system";
 
@@ -21,117 +72,117 @@ const themeOptions: Array<{ key: ThemeMode; label: string }> = [
 ];
 
 type StatusFilter = "all" | "open" | "done";
-type SortFilter = "newest" | "due";
-
-type TodoSearch = {
-  status?: "open" | "done";
-  sort?: "due";
-  q?: string;
-};
-
 const statusOptions: Array<{ key: StatusFilter; label: string }> = [
   { key: "all", label: "All" },
   { key: "open", label: "Open" },
   { key: "done", label: "Done" },
 ];
 
-const dueDateFormatter = new Intl.DateTimeFormat("en-US", {
-  month: "short",
-  day: "numeric",
-});
-
 const headerDateFormatter = new Intl.DateTimeFormat("en-US", {
   weekday: "short",
   month: "short",
   day: "numeric",
 });
 
-const formatDueDate = (value: string) => dueDateFormatter.format(new Date(value));
+const parseComposeTitle = (title: string, ignoredTokens: string[], timeZone: string) =>
+  parseQuickAdd(title, { timeZone, ignored: new Set(ignoredTokens) });
+
+// Urgent and high stand out; lower priorities stay quiet so they don't compete with due dates.
+const priorityBadgeClasses: Record<TodoPriority, string> = {
+  none: "",
+  low: "border-stroke text-muted/70",
+  medium: "border-[color:var(--info-border)] bg-[color:var(--info-soft)] text-info",
+  high: "border-[color:var(--accent-border)] bg-[color:var(--accent-soft)] text-[color:var(--accent-strong)]",
+  urgent: "border-[color:var(--danger-border)] bg-[color:var(--danger-soft)] text-[color:var(--danger)]",
+};
+
+const deviceTimeZoneKey = "device";
 const formatHeaderDate = (value: Date) => headerDateFormatter.format(value);
 
 function App() {
   const queryClient = useQueryClient();
   const navigate = useNavigate();
-  const search = useSearch({ strict: false }) as TodoSearch;
+  const search = useSearch({ from: "/_app" });
+  // Set on /lists/$listId and the editor below it; every other page shows all tasks.
+  const { listId: listIdParam } = useParams({ strict: false });
+  const listId = listIdParam !== undefined ? Number(listIdParam) : undefined;
   const statusFilter: StatusFilter = search.status ?? "all";
-  const sortFilter: SortFilter = search.sort === "due" ? "due" : "newest";
+  const sortFilter: TodoSort = search.sort ?? defaultTodoSort;
+  const { field: sortField, direction: sortDirection } = parseTodoSort(sortFilter);
   const queryFilter = search.q ?? "";
+  const tagFilter = search.tag;
   const trimmedQuery = queryFilter.trim();
 
   const [searchInput, setSearchInput] = useState(queryFilter);
 
-  const [mutationError, setMutationError] = useState<string | null>(null);
+  // Each filter set has its own cached collection, so going back to a filter is instant.
+  const todoList = getTodoList(search, listId);
+  const todoCollection = todoList.collection;
+
   const [refreshing, setRefreshing] = useState(false);
   const [activeTodoId, setActiveTodoId] = useState<number | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Selection>(() => new Set());
+  const [bulkPending, setBulkPending] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  // Todos waiting on the user to say whether their open checklist items get completed too.
+  const [completionRequest, setCompletionRequest] = useState<{
+    todos: TodoItem[];
+    complete: (completeChecklist: boolean) => void;
+  } | null>(null);
+  const shortcutBindings = useShortcutBindings();
+  const composeFormRef = useRef<HTMLFormElement>(null);
+  const searchRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
   const { theme, setTheme } = useTheme();
   const {
     data: todos = [],
     isLoading,
     isError,
-  } = useLiveQuery((q) =>
-    q.from({ todo: todoCollection }).orderBy(({ todo }) => todo.createdAt, "desc"),
+  } = useLiveQuery(
+    (q) => q.from({ todo: todoCollection }).orderBy(({ todo }) => todo.createdAt, "desc"),
+    [todoCollection],
   );
+  const pagination = useTodoPagination(todoList);
+  const { data: knownTags = [] } = useTodoTags();
+  const { data: todoLists } = useTodoLists();
+  const activeList = todoLists?.lists.find((list) => list.id === listId);
+  const outbox = useOutboxStatus();
 
   const completedCount = useMemo(() => todos.filter((todo) => todo.isCompleted).length, [todos]);
   const remainingCount = todos.length - completedCount;
   const openTodos = useMemo(() => todos.filter((todo) => !todo.isCompleted), [todos]);
-  const {
-    overdueCount,
-    dueSoonCount,
-    startOfToday,
-    soonThreshold,
-  } = useMemo(() => {
-    const dayStart = new Date();
-    dayStart.setHours(0, 0, 0, 0);
-    const soonWindow = new Date(dayStart);
-    soonWindow.setDate(soonWindow.getDate() + 3);
-
+  const timeZone = useTimeZone();
+  const timeZoneSetting = useTimeZoneSetting();
+  const timeZoneItems = useMemo(
+    () => [
+      { id: deviceTimeZoneKey, name: "Device time zone" },
+      ...getTimeZoneOptions().map((zone) => ({ id: zone, name: zone.replace(/_/g, " ") })),
+    ],
+    [],
+  );
+  const { overdueCount, dueSoonCount } = useMemo(() => {
     let overdue = 0;
     let dueSoon = 0;
     for (const todo of openTodos) {
-      if (!todo.dueDate) {
-        continue;
-      }
-
-      const dueTime = Date.parse(todo.dueDate);
-      if (Number.isNaN(dueTime)) {
-        continue;
-      }
-
-      if (dueTime < dayStart.getTime()) {
+      const status = getDueStatus(todo, timeZone);
+      if (status?.isOverdue) {
         overdue += 1;
-      } else if (dueTime <= soonWindow.getTime()) {
+      } else if (status?.isDueSoon) {
         dueSoon += 1;
       }
     }
 
-    return {
-      overdueCount: overdue,
-      dueSoonCount: dueSoon,
-      startOfToday: dayStart,
-      soonThreshold: soonWindow,
-    };
-  }, [openTodos]);
+    return { overdueCount: overdue, dueSoonCount: dueSoon };
+  }, [openTodos, timeZone]);
   const todayLabel = useMemo(() => formatHeaderDate(new Date()), []);
   const loadError = isError ? "Could not load todos." : null;
-  const errorMessage = mutationError ?? loadError;
   const loading = isLoading || refreshing;
-  const hasMounted = useRef(false);
 
   useEffect(() => {
     setSearchInput(queryFilter);
   }, [queryFilter]);
 
-  useEffect(() => {
-    if (!hasMounted.current) {
-      hasMounted.current = true;
-      return;
-    }
-
-    queryClient.invalidateQueries({ queryKey: todosQueryKey });
-  }, [queryClient, sortFilter, statusFilter, trimmedQuery]);
-
   useEffect(() => {
     const normalized = searchInput.trim();
 
@@ -168,38 +219,29 @@ function App() {
         return todos;
       })();
 
+      const byTag = tagFilter ? byStatus.filter((todo) => todo.tags.includes(tagFilter)) : byStatus;
+
       if (!normalizedQuery) {
-        return byStatus;
+        return byTag;
       }
 
-      return byStatus.filter((todo) => {
+      return byTag.filter((todo) => {
         const haystack = `${todo.title} ${todo.notes ?? ""}`.toLowerCase();
         return haystack.includes(normalizedQuery);
       });
     })();
 
-    if (sortFilter === "newest") {
-      return filtered;
-    }
-
-    return [...filtered].sort((a, b) => {
-      const aDue = a.dueDate ? Date.parse(a.dueDate) : null;
-      const bDue = b.dueDate ? Date.parse(b.dueDate) : null;
+    return [...filtered].sort(compareTodos(sortFilter));
+  }, [sortFilter, statusFilter, tagFilter, todos, trimmedQuery]);
 
-      if (aDue == null && bDue == null) {
-        return Date.parse(b.createdAt) - Date.parse(a.createdAt);
-      }
-
-      if (aDue == null) return 1;
-      if (bDue == null) return -1;
-
-      if (aDue !== bDue) {
-        return aDue - bDue;
-      }
-
-      return Date.parse(b.createdAt) - Date.parse(a.createdAt);
-    });
-  }, [sortFilter, statusFilter, todos, trimmedQuery]);
+  const selectedTodos = useMemo(
+    () =>
+      visibleTodos.filter(
+        (todo) =>
+          !isTemporaryTodoId(todo.id) && (selectedKeys === "all" || selectedKeys.has(todo.id)),
+      ),
+    [selectedKeys, visibleTodos],
+  );
 
   const handleStatusChange = (selection: "all" | Iterable<unknown> | unknown) => {
     const nextValue = (() => {
@@ -230,14 +272,64 @@ function App() {
     });
   };
 
+  const handleTagFilterChange = (nextTag: string | undefined) => {
+    navigate({
+      to: ".",
+      search: (prev: TodoSearch) => ({
+        ...prev,
+        tag: nextTag,
+      }),
+    });
+  };
+
+  const handleSortChange = (nextValue: TodoSort) => {
+    navigate({
+      to: ".",
+      search: (prev: TodoSearch) => ({
+        ...prev,
+        sort: nextValue === defaultTodoSort ? undefined : nextValue,
+      }),
+    });
+  };
+
+  const { dragAndDropHooks } = useDragAndDrop({
+    getItems: (keys) =>
+      [...keys].map((key) => ({
+        "text/plain": todoCollection.get(Number(key))?.title ?? "",
+      })),
+    onReorder: (event) => {
+      const movedIds = visibleTodos
+        .map((todo) => todo.id)
+        .filter((id) => event.keys.has(id) && !isTemporaryTodoId(id));
+      const remaining = visibleTodos.filter((todo) => !event.keys.has(todo.id));
+      const targetIndex = remaining.findIndex((todo) => todo.id === event.target.key);
+
+      if (movedIds.length === 0 || targetIndex === -1) {
+        return;
+      }
+
+      const insertIndex = event.target.dropPosition === "after" ? targetIndex + 1 : targetIndex;
+      const beforeId = remaining[insertIndex]?.id ?? null;
+      let afterId = remaining[insertIndex - 1]?.id ?? null;
+
+      // Dragged rows keep their relative order, each one placed right after the previous.
+      for (const id of movedIds) {
+        const transaction = todoList.move({ id, afterId, beforeId });
+        transaction.isPersisted.promise.catch((err) => {
+          showErrorToast(err, "Could not move this todo.");
+        });
+        afterId = id;
+      }
+    },
+  });
+
   const refreshTodos = async () => {
     setRefreshing(true);
-    setMutationError(null);
 
     try {
       await queryClient.invalidateQueries({ queryKey: todosQueryKey });
     } catch (err) {
-      setMutationError(err instanceof Error ? err.message : "Could not refresh todos.");
+      showErrorToast(err, "Could not refresh todos.");
     } finally {
       setRefreshing(false);
     }
@@ -247,63 +339,288 @@ function App() {
     defaultValues: {
       title: "",
       dueDate: "",
+      // Recognised phrases the user turned back into plain title text.
+      ignoredTokens: [] as string[],
     },
     validators: {
       onChange: ({ value }) => {
-        if (!value.title.trim()) {
+        if (!parseComposeTitle(value.title, value.ignoredTokens, timeZone).title) {
           return { fields: { title: "Enter a title before adding a task." } };
         }
         return undefined;
       },
     },
-    onSubmit: async ({ value }) => {
-      setMutationError(null);
-
-      try {
-        const dueDate = value.dueDate.trim();
-
-        const result = await postApiTodos({
-          baseUrl: typeof window === "undefined" ? "" : window.location.origin,
-          body: {
-            title: value.title.trim(),
-            notes: null,
-            dueDate: dueDate ? new Date(dueDate).toISOString() : null,
-            sortOrder: null,
-          },
+    listeners: {
+      onChange: clearServerFieldError,
+    },
+    onSubmit: ({ value }) => {
+
+      const quickAdd = parseComposeTitle(value.title, value.ignoredTokens, timeZone);
+      const title = quickAdd.title;
+      const due = quickAdd.dueDate
+        ? fromDueFields(quickAdd.dueDate, quickAdd.dueTime ?? "", timeZone)
+        : fromDueFields(value.dueDate.trim(), "", timeZone);
+      const now = new Date().toISOString();
+
+      const transaction = todoCollection.insert({
+        id: createTemporaryTodoId(),
+        title,
+        notes: null,
+        isCompleted: false,
+        sortOrder: todoList.getTopSortOrder(),
+        dueDate: due.dueDate,
+        isAllDay: due.isAllDay,
+        // Tasks added while a tag filter is on get that tag, so they stay in the list being viewed.
+        tags: normalizeTags(tagFilter ? [...quickAdd.tags, tagFilter] : quickAdd.tags),
+        priority: quickAdd.priority ?? "none",
+        // Tasks added while viewing a list go into it.
+        listId: listId ?? null,
+        repeat: null,
+        checklistCount: 0,
+        checklistCompletedCount: 0,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      });
+
+      createForm.reset();
+
+      transaction.isPersisted.promise.catch((err: unknown) => {
+        // The optimistic row is already rolled back; give the user their input back to retry.
+        if (!createForm.getFieldValue("title")) {
+          createForm.setFieldValue("title", value.title);
+          createForm.setFieldValue("dueDate", value.dueDate);
+          createForm.setFieldValue("ignoredTokens", value.ignoredTokens);
+        }
+
+        // Field problems show on the inputs; anything else gets a toast.
+        if (!setServerFieldErrors(createForm, err)) {
+          showErrorToast(err, "Could not save your todo.");
+        }
+      });
+    },
+  });
+
+  const handleLoadMore = async () => {
+    try {
+      await todoList.loadMore();
+    } catch (err) {
+      showErrorToast(err, "Could not load more todos.");
+    }
+  };
+
+  const runBulkUpdate = async (
+    apply: (draft: TodoItem) => void,
+    toastTitle: (count: number) => string,
+    completeChecklist?: boolean,
+  ) => {
+    const targets = selectedTodos;
+    if (targets.length === 0) {
+      return;
+    }
+
+    const ids = targets.map((todo) => todo.id);
+    const previous = new Map(
+      targets.map((todo) => [
+        todo.id,
+        { isCompleted: todo.isCompleted, dueDate: todo.dueDate, isAllDay: todo.isAllDay },
+      ]),
+    );
+    // Completing a repeating todo adds its next occurrence, which reopening it wouldn't take back.
+    const addsOccurrences = targets.some((todo) => {
+      const preview = { ...todo };
+      apply(preview);
+      return todo.repeat !== null && !todo.isCompleted && preview.isCompleted;
+    });
+
+    setBulkPending(true);
+
+    try {
+      const transaction = todoCollection.update(ids, { metadata: { completeChecklist } }, (drafts) => {
+        const now = new Date().toISOString();
+        for (const draft of drafts) {
+          apply(draft);
+          draft.updatedAt = now;
+        }
+      });
+      await transaction.isPersisted.promise;
+
+      setSelectedKeys(new Set());
+
+      if (addsOccurrences) {
+        toastQueue.add({
+          title: toastTitle(ids.length),
+          description: "Repeating tasks got their next occurrence.",
         });
+        return;
+      }
 
-        if (result.error) {
-          throw new Error("Could not save your todo.");
+      toastQueue.add({
+        title: toastTitle(ids.length),
+        action: {
+          label: "Undo",
+          onAction: async () => {
+            try {
+              const undo = todoCollection.update(ids, (drafts) => {
+                const now = new Date().toISOString();
+                for (const draft of drafts) {
+                  const original = previous.get(draft.id);
+                  if (original) {
+                    draft.isCompleted = original.isCompleted;
+                    draft.dueDate = original.dueDate;
+                    draft.isAllDay = original.isAllDay;
+                    draft.updatedAt = now;
+                  }
+                }
+              });
+              await undo.isPersisted.promise;
+            } catch (err) {
+              if (!isRollbackNotified(err)) {
+                showErrorToast(err, "Could not undo that change.");
+              }
+            }
+          },
+        },
+      });
+    } catch (err) {
+      if (!isRollbackNotified(err)) {
+        showErrorToast(err, "Could not update these todos.");
+      }
+    } finally {
+      setBulkPending(false);
+    }
+  };
+
+  const pluralize = (count: number) => (count === 1 ? "1 task" : `${count} tasks`);
+
+  const handleBulkReschedule = (dueDate: string | null) =>
+    runBulkUpdate(
+      (draft) => {
+        const due = fromDueFields(dueDate ?? "", "", timeZone);
+        draft.dueDate = due.dueDate;
+        draft.isAllDay = due.isAllDay;
+      },
+      (count) => (dueDate ? `Rescheduled ${pluralize(count)}` : `Cleared due date on ${pluralize(count)}`),
+    );
+
+  // Like a single toggle, completing todos with open checklist items asks about those items first.
+  const handleBulkComplete = (completeChecklist?: boolean) => {
+    const withOpenItems = selectedTodos.filter(
+      (todo) => !todo.isCompleted && hasOpenChecklistItems(todo),
+    );
+    if (completeChecklist === undefined && withOpenItems.length > 0) {
+      setCompletionRequest({ todos: withOpenItems, complete: handleBulkComplete });
+      return;
+    }
+
+    void runBulkUpdate(
+      (draft) => {
+        draft.isCompleted = true;
+        if (completeChecklist) {
+          draft.checklistCompletedCount = draft.checklistCount;
         }
+      },
+      (count) => `Completed ${pluralize(count)}`,
+      completeChecklist,
+    );
+  };
+
+  const handleBulkDelete = async () => {
+    const ids = selectedTodos.map((todo) => todo.id);
+    if (ids.length === 0) {
+      return;
+    }
+
+    setBulkPending(true);
+
+    try {
+      const transaction = todoCollection.delete(ids);
+      await transaction.isPersisted.promise;
 
-        await queryClient.invalidateQueries({ queryKey: todosQueryKey });
+      setSelectedKeys(new Set());
 
-        createForm.reset();
-      } catch (err) {
-        setMutationError(err instanceof Error ? err.message : "Could not save your todo.");
+      toastQueue.add({
+        title: `Moved ${pluralize(ids.length)} to trash`,
+        description: "Hidden from your list. Undo if needed.",
+        action: {
+          label: "Undo",
+          onAction: async () => {
+            try {
+              await restoreTodos(ids);
+            } catch (err) {
+              showErrorToast(err, "Could not restore these todos.");
+            }
+          },
+        },
+      });
+    } catch (err) {
+      if (!isRollbackNotified(err)) {
+        showErrorToast(err, "Could not delete these todos.");
       }
-    },
-  });
+    } finally {
+      setBulkPending(false);
+    }
+  };
+
+  const handleToggle = async (
+    todo: TodoItem,
+    nextValue: boolean,
+    completeChecklist?: boolean,
+  ) => {
+    if (nextValue && completeChecklist === undefined && hasOpenChecklistItems(todo)) {
+      setCompletionRequest({
+        todos: [todo],
+        complete: (checklist) => void handleToggle(todo, true, checklist),
+      });
+      return;
+    }
 
-  const handleToggle = async (todo: TodoItem, nextValue: boolean) => {
     setActiveTodoId(todo.id);
-    setMutationError(null);
 
     try {
-      await todoCollection.update(todo.id, (draft) => {
-        draft.isCompleted = nextValue;
-        draft.updatedAt = new Date().toISOString();
-      });
+      const transaction = todoCollection.update(
+        todo.id,
+        { metadata: { completeChecklist } },
+        (draft) => {
+          draft.isCompleted = nextValue;
+          if (completeChecklist) {
+            draft.checklistCompletedCount = draft.checklistCount;
+          }
+          draft.updatedAt = new Date().toISOString();
+        },
+      );
+
+      // The server adds the next occurrence of a repeating todo; say when it's due once that's saved.
+      const nextDue = nextValue ? getNextDue(todo) : null;
+      if (nextDue) {
+        transaction.isPersisted.promise.then(
+          () => toastQueue.add({ title: `Next "${todo.title}" is due ${formatDue(nextDue, timeZone)}` }),
+          // A failed save already shows the rollback toast.
+          () => undefined,
+        );
+      }
     } catch (err) {
-      setMutationError(err instanceof Error ? err.message : "Could not update this todo.");
+      showErrorToast(err, "Could not update this todo.");
     } finally {
       setActiveTodoId(null);
     }
   };
 
+  // The editor opens inside the current list, so closing it comes back here.
+  const openTodo = (todoId: number) => {
+    if (listIdParam !== undefined) {
+      navigate({
+        to: "/lists/$listId/todos/$id",
+        params: { listId: listIdParam, id: String(todoId) },
+        search: true,
+      });
+    } else {
+      navigate({ to: "/todos/$id", params: { id: String(todoId) }, search: true });
+    }
+  };
+
   const handleDelete = async (todoId: number) => {
     setActiveTodoId(todoId);
-    setMutationError(null);
 
     try {
       await todoCollection.delete(todoId);
@@ -317,29 +634,179 @@ function App() {
             try {
               await restoreTodo(todoId);
             } catch (err) {
-              setMutationError(err instanceof Error ? err.message : "Could not restore this todo.");
+              showErrorToast(err, "Could not restore this todo.");
             }
           },
         },
       });
     } catch (err) {
-      setMutationError(err instanceof Error ? err.message : "Could not delete this todo.");
+      showErrorToast(err, "Could not delete this todo.");
     } finally {
       setActiveTodoId(null);
     }
   };
 
+  const getTodoRows = () =>
+    Array.from(
+      listRef.current?.querySelectorAll<HTMLElement>("[data-todo-id]:not([data-disabled])") ?? [],
+    );
+
+  const getFocusedTodo = () => {
+    const row = getTodoRows().find((element) => element.contains(document.activeElement));
+    return row ? visibleTodos.find((todo) => todo.id === Number(row.dataset.todoId)) : undefined;
+  };
+
+  const moveTodoFocus = (step: 1 | -1) => {
+    const rows = getTodoRows();
+    const index = rows.findIndex((element) => element.contains(document.activeElement));
+    const nextIndex =
+      index === -1
+        ? step === 1
+          ? 0
+          : rows.length - 1
+        : Math.min(Math.max(index + step, 0), rows.length - 1);
+    const row = rows[nextIndex];
+
+    row?.focus();
+    row?.scrollIntoView({ block: "nearest" });
+  };
+
+  // Row shortcuts act on the task that has keyboard focus.
+  useShortcuts({
+    next: () => moveTodoFocus(1),
+    previous: () => moveTodoFocus(-1),
+    toggle: () => {
+      const todo = getFocusedTodo();
+      if (todo && activeTodoId !== todo.id) {
+        handleToggle(todo, !todo.isCompleted);
+      }
+    },
+    edit: () => {
+      const todo = getFocusedTodo();
+      if (todo) {
+        openTodo(todo.id);
+      }
+    },
+    delete: () => {
+      const todo = getFocusedTodo();
+      if (todo && activeTodoId !== todo.id) {
+        handleDelete(todo.id);
+      }
+    },
+    compose: () => composeFormRef.current?.querySelector("input")?.focus(),
+    search: () => searchRef.current?.querySelector("input")?.focus(),
+    help: () => setShortcutsOpen(true),
+  });
+
+  const listCommands = useMemo<Command[]>(() => {
+    const applyTag = (nextTag: string | undefined) =>
+      navigate({
+        to: ".",
+        search: (prev: TodoSearch) => ({ ...prev, tag: nextTag }),
+      });
+
+    const applySort = (nextSort: TodoSort) =>
+      navigate({
+        to: ".",
+        search: (prev: TodoSearch) => ({
+          ...prev,
+          sort: nextSort === defaultTodoSort ? undefined : nextSort,
+        }),
+      });
+
+    return [
+      {
+        id: "new-task",
+        label: "New task",
+        section: "Tasks",
+        keywords: ["add", "create"],
+        run: () => composeFormRef.current?.querySelector("input")?.focus(),
+      },
+      ...(todoLists?.lists ?? []).map((list) => ({
+        id: `go-list-${list.id}`,
+        label: `Go to ${list.name}`,
+        section: "Navigation",
+        keywords: ["list", "project"],
+        run: () =>
+          navigate({ to: "/lists/$listId", params: { listId: String(list.id) }, search: true }),
+      })),
+      ...statusOptions.map((option) => ({
+        id: `filter-${option.key}`,
+        label: `Show ${option.label.toLowerCase()} tasks`,
+        section: "Filter",
+        run: () =>
+          navigate({
+            to: ".",
+            search: (prev: TodoSearch) => ({
+              ...prev,
+              status: option.key === "all" ? undefined : option.key,
+            }),
+          }),
+      })),
+      ...knownTags.map((tag) => ({
+        id: `filter-tag-${tag.name}`,
+        label: `Show tasks tagged #${tag.name}`,
+        section: "Filter",
+        keywords: ["tag", "label"],
+        run: () => applyTag(tag.name),
+      })),
+      ...(tagFilter
+        ? [
+            {
+              id: "filter-tag-clear",
+              label: "Clear tag filter",
+              section: "Filter",
+              run: () => applyTag(undefined),
+            },
+          ]
+        : []),
+      ...todoSortFields.map((field) => ({
+        id: `sort-${field.key}`,
+        label: `Sort by ${field.label.toLowerCase()}`,
+        section: "Sort",
+        run: () => applySort(toTodoSort(field.key, sortDirection)),
+      })),
+      {
+        id: "sort-reverse",
+        label: "Reverse sort direction",
+        section: "Sort",
+        run: () => applySort(toTodoSort(sortField, sortDirection === "asc" ? "desc" : "asc")),
+      },
+    ];
+  }, [knownTags, navigate, sortDirection, sortField, tagFilter, todoLists]);
+  useRegisterCommands(listCommands);
+
   return (
-    <div className="app-shell">
-      <div className="mx-auto flex w-full max-w-2xl flex-col gap-4 px-4 py-4 sm:gap-5 sm:px-8 sm:py-8">
+    <div className="app-shell md:flex md:items-start md:justify-center md:gap-2 md:pl-8">
+      <TodoListsSidebar activeListId={listId} />
+      <div className="mx-auto flex w-full max-w-2xl min-w-0 flex-col gap-4 px-4 py-4 sm:gap-5 sm:px-8 sm:py-8 md:mx-0">
         <header className="relative z-20 flex items-center justify-between app-rise" style={{ animationDelay: "60ms" }}>
           <div className="flex flex-col">
             <h1 className="font-display text-2xl font-semibold tracking-tight text-ink sm:text-3xl">
-              Tasks
+              {activeList?.name ?? "Tasks"}
             </h1>
             <span className="text-[0.7rem] text-muted/70 tracking-wide uppercase">{todayLabel}</span>
           </div>
           <div className="flex items-center gap-2">
+            {(!outbox.isOnline || outbox.pendingCount > 0) && (
+              <span
+                role="status"
+                className="text-[0.7rem] uppercase tracking-wider font-semibold px-2.5 py-1 rounded-full bg-surface-strong text-muted"
+                title={
+                  outbox.isOnline
+                    ? "Sending changes made while offline"
+                    : "Changes are saved on this device and sent when you reconnect"
+                }
+              >
+                {!outbox.isOnline
+                  ? outbox.pendingCount > 0
+                    ? `Offline · ${outbox.pendingCount} pending`
+                    : "Offline"
+                  : outbox.isReplaying
+                    ? `Syncing ${outbox.pendingCount}`
+                    : `${outbox.pendingCount} pending`}
+              </span>
+            )}
             <span className={`text-[0.7rem] uppercase tracking-wider font-semibold px-2.5 py-1 rounded-full ${
               remainingCount === 0 
                 ? "bg-[color:var(--success-soft)] text-[color:var(--success)]"
@@ -351,6 +818,16 @@ function App() {
             }`}>
               {remainingCount} open
             </span>
+            <button
+              type="button"
+              onClick={() => navigate({ to: "/trash" })}
+              className="flex h-8 w-8 items-center justify-center rounded-md text-muted/50 transition-all hover:text-muted hover:bg-surface-strong/50"
+              aria-label="Trash"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
+              </svg>
+            </button>
             <div className="relative">
               <button
                 type="button"
@@ -408,6 +885,32 @@ function App() {
                           </button>
                         ))}
                       </div>
+                      <ComboBox
+                        label="Time zone"
+                        aria-label="Time zone"
+                        items={timeZoneItems}
+                        selectedKey={timeZoneSetting ?? deviceTimeZoneKey}
+                        onSelectionChange={(key) => {
+                          if (key !== null) {
+                            setTimeZone(key === deviceTimeZoneKey ? null : String(key));
+                          }
+                        }}
+                        description={timeZoneSetting ? null : timeZone}
+                        className="mt-3 w-56"
+                      >
+                        {(item) => <ComboBoxItem id={item.id}>{item.name}</ComboBoxItem>}
+                      </ComboBox>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setShortcutsOpen(true);
+                          setSettingsOpen(false);
+                        }}
+                        className="mt-2 flex w-full items-center justify-between gap-3 px-3 py-2 rounded-md text-sm text-ink transition-colors hover:bg-surface-strong"
+                      >
+                        Shortcuts
+                        <kbd className="font-mono text-xs text-muted">{shortcutBindings.help}</kbd>
+                      </button>
                     </div>
                   </div>
                 </>
@@ -420,6 +923,7 @@ function App() {
           {/* Compose form */}
           <section className="app-rise" style={{ animationDelay: "100ms" }}>
             <form
+              ref={composeFormRef}
               className="flex gap-3 items-center p-3 -mx-3 rounded-xl bg-surface-strong/20"
               onSubmit={(e) => {
                 e.preventDefault();
@@ -431,7 +935,8 @@ function App() {
                 children={() => (
                   <AppTextField
                     aria-label="New task"
-                    placeholder="Add a task..."
+                    aria-describedby="compose-quick-add"
+                    placeholder="Add a task, e.g. Call Sam tomorrow 3pm"
                     className="flex-1 min-w-0"
                   />
                 )}
@@ -455,6 +960,37 @@ function App() {
                 </AppSubmitButton>
               </createForm.AppForm>
             </form>
+            <createForm.Subscribe
+              selector={(state) => [state.values.title, state.values.ignoredTokens] as const}
+            >
+              {([title, ignoredTokens]) => {
+                const { tokens } = parseComposeTitle(title, ignoredTokens, timeZone);
+
+                return (
+                  <div id="compose-quick-add" aria-live="polite">
+                    {tokens.length > 0 && (
+                      <TagGroup
+                        aria-label="Recognized in your task"
+                        className="mt-1"
+                        items={tokens.map((token) => ({ ...token, id: getQuickAddTokenKey(token) }))}
+                        onRemove={(keys) =>
+                          createForm.setFieldValue("ignoredTokens", [
+                            ...ignoredTokens,
+                            ...Array.from(keys, String),
+                          ])
+                        }
+                      >
+                        {(token) => (
+                          <Tag textValue={`${token.label}, from "${token.text}"`} color="blue">
+                            {token.label}
+                          </Tag>
+                        )}
+                      </TagGroup>
+                    )}
+                  </div>
+                );
+              }}
+            </createForm.Subscribe>
           </section>
 
           {/* Task list */}
@@ -480,8 +1016,53 @@ function App() {
                   </button>
                 ))}
               </div>
+              <div className="flex items-center gap-0.5">
+                <Select
+                  aria-label="Sort by"
+                  value={sortField}
+                  onChange={(key) => {
+                    if (typeof key === "string") {
+                      handleSortChange(toTodoSort(key as TodoSortField, sortDirection));
+                    }
+                  }}
+                  items={todoSortFields.map((field) => ({ id: field.key, label: field.label }))}
+                  className="w-[180px]"
+                >
+                  {(item) => <SelectItem id={item.id}>{item.label}</SelectItem>}
+                </Select>
+                <button
+                  type="button"
+                  onClick={() =>
+                    handleSortChange(toTodoSort(sortField, sortDirection === "asc" ? "desc" : "asc"))
+                  }
+                  className="h-9 w-9 rounded-md flex items-center justify-center text-muted/60 hover:text-ink hover:bg-surface-strong/60 transition-colors"
+                  aria-label={sortDirection === "asc" ? "Sort descending" : "Sort ascending"}
+                  title={sortDirection === "asc" ? "Ascending" : "Descending"}
+                >
+                  <svg
+                    className={`h-3.5 w-3.5 transition-transform ${sortDirection === "desc" ? "rotate-180" : ""}`}
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    strokeWidth={1.5}
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M12 19.5v-15m0 0-6.75 6.75M12 4.5l6.75 6.75" />
+                  </svg>
+                </button>
+              </div>
+              {tagFilter && (
+                <TagGroup
+                  aria-label="Tag filter"
+                  color="blue"
+                  onRemove={() => handleTagFilterChange(undefined)}
+                >
+                  <Tag id={tagFilter} textValue={`Tagged ${tagFilter}`}>
+                    #{tagFilter}
+                  </Tag>
+                </TagGroup>
+              )}
               <div className="flex-1" />
-              <div className="flex items-center gap-2 py-1.5">
+              <div ref={searchRef} className="flex items-center gap-2 py-1.5">
                 <SearchField
                   aria-label="Search"
                   placeholder="Search..."
@@ -507,12 +1088,31 @@ function App() {
               </div>
             </div>
 
-            {errorMessage && (
+            {selectedTodos.length > 0 && (
+              <TodoBulkActions
+                selectedCount={selectedTodos.length}
+                isDisabled={bulkPending}
+                onComplete={() => handleBulkComplete()}
+                onReopen={() =>
+                  runBulkUpdate(
+                    (draft) => {
+                      draft.isCompleted = false;
+                    },
+                    (count) => `Reopened ${pluralize(count)}`,
+                  )
+                }
+                onReschedule={handleBulkReschedule}
+                onDelete={handleBulkDelete}
+                onClearSelection={() => setSelectedKeys(new Set())}
+              />
+            )}
+
+            {loadError && (
               <div
                 className="rounded-md border border-[color:var(--danger-border)] bg-[color:var(--danger-soft)] px-2.5 py-1.5 text-[0.7rem] text-[color:var(--danger)]"
                 role="alert"
               >
-                {errorMessage}
+                {loadError}
               </div>
             )}
 
@@ -548,42 +1148,42 @@ function App() {
                 </p>
               </div>
             ) : (
-              <div className="divide-y divide-stroke/40">
+              <div ref={listRef} className="divide-y divide-stroke/40">
                 <GridList
                   aria-label="Todo list"
-                  selectionMode="none"
+                  selectionMode="multiple"
+                  selectionBehavior="replace"
+                  selectedKeys={selectedKeys}
+                  onSelectionChange={setSelectedKeys}
+                  disallowTypeAhead
+                  dragAndDropHooks={sortFilter === "order" ? dragAndDropHooks : undefined}
+                  disabledKeys={visibleTodos.filter((todo) => isTemporaryTodoId(todo.id)).map((todo) => todo.id)}
                   className="w-full border-transparent bg-transparent shadow-none todo-gridlist"
                 >
                   {visibleTodos.map((todo) => {
-                    const isActive = activeTodoId === todo.id;
+                    const isActive = activeTodoId === todo.id || isTemporaryTodoId(todo.id);
                     let dueBadge = null;
 
-                    if (todo.dueDate) {
-                      const dueTime = Date.parse(todo.dueDate);
-                      if (!Number.isNaN(dueTime)) {
-                        const isOverdue = dueTime < startOfToday.getTime();
-                        const isDueSoon =
-                          dueTime >= startOfToday.getTime() &&
-                          dueTime <= soonThreshold.getTime();
-                        const badgeClass = todo.isCompleted
-                          ? "text-muted/50"
-                          : isOverdue
-                            ? "text-[color:var(--danger)]"
-                            : isDueSoon
-                              ? "text-[color:var(--accent-strong)]"
-                              : "text-muted/60";
-
-                        dueBadge = (
-                          <span className={`text-xs tabular-nums ${badgeClass}`}>
-                            {isOverdue && "! "}
-                            {formatDueDate(todo.dueDate)}
-                          </span>
-                        );
-                      }
+                    const dueStatus = getDueStatus(todo, timeZone);
+                    if (dueStatus) {
+                      const badgeClass = todo.isCompleted
+                        ? "text-muted/50"
+                        : dueStatus.isOverdue
+                          ? "text-[color:var(--danger)]"
+                          : dueStatus.isDueSoon
+                            ? "text-[color:var(--accent-strong)]"
+                            : "text-muted/60";
+
+                      dueBadge = (
+                        <span className={`text-xs tabular-nums ${badgeClass}`}>
+                          {dueStatus.isOverdue && "! "}
+                          {formatDue(todo, timeZone)}
+                        </span>
+                      );
                     }
 
                     return (
-                      <GridListItem id={todo.id} key={todo.id} textValue={todo.title}>
+                      <GridListItem id={todo.id} key={todo.id} textValue={todo.title} data-todo-id={todo.id}>
                         <div
                           className={`group flex w-full items-center gap-3 py-2.5 px-2 -mx-2 rounded-lg transition-all hover:bg-surface-strong/40 ${
                             isActive ? "opacity-50" : ""
@@ -606,11 +1206,54 @@ function App() {
                           >
                             {todo.title}
                           </button>
+                          {todo.priority !== "none" && (
+                            <span
+                              className={`shrink-0 rounded-full border px-2 py-0.5 text-[0.65rem] font-semibold uppercase tracking-wider ${
+                                todo.isCompleted
+                                  ? "border-stroke text-muted/50"
+                                  : priorityBadgeClasses[todo.priority]
+                              }`}
+                              title={`${getPriorityLabel(todo.priority)} priority`}
+                            >
+                              {getPriorityLabel(todo.priority)}
+                            </span>
+                          )}
+                          {todo.tags.length > 0 && (
+                            <div className="hidden shrink-0 items-center gap-1 sm:flex">
+                              {todo.tags.map((tag) => (
+                                <button
+                                  key={tag}
+                                  type="button"
+                                  onClick={() => handleTagFilterChange(tag)}
+                                  className={`rounded-full border px-2 py-0.5 text-[0.7rem] transition-colors ${
+                                    tag === tagFilter
+                                      ? "border-[color:var(--accent-border)] bg-[color:var(--accent-soft)] text-ink"
+                                      : "border-stroke text-muted hover:text-ink"
+                                  }`}
+                                  aria-label={`Show tasks tagged ${tag}`}
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                          {todo.checklistCount > 0 && (
+                            <ProgressBar
+                              aria-label={`Checklist progress for ${todo.title}`}
+                              value={todo.checklistCompletedCount}
+                              maxValue={todo.checklistCount}
+                              valueLabel={`${todo.checklistCompletedCount}/${todo.checklistCount}`}
+                              className="w-14 shrink-0 gap-1"
+                            />
+                          )}
+                          {todo.repeat && (
+                            <RepeatIcon role="img" aria-label="Repeats" className="h-3 w-3 shrink-0 text-muted/60" />
+                          )}
                           {dueBadge}
                           <div className="flex shrink-0 items-center gap-0.5 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
                             <button
                               type="button"
-                              onClick={() => navigate({ to: `/todos/${todo.id}` })}
+                              onClick={() => openTodo(todo.id)}
                               disabled={isActive}
                               className="h-8 w-8 rounded flex items-center justify-center text-muted/30 hover:text-ink hover:bg-surface-strong/60 transition-colors"
                               aria-label="Edit"
@@ -635,12 +1278,34 @@ function App() {
                       </GridListItem>
                     );
                   })}
+                  {pagination.hasMore && (
+                    <GridListLoadMoreItem
+                      onLoadMore={handleLoadMore}
+                      isLoading={pagination.isLoadingMore}
+                    />
+                  )}
                 </GridList>
               </div>
             )}
+
+            {!loading && pagination.totalCount > 0 && (
+              <p className="text-center text-[0.7rem] text-muted/60 tabular-nums">
+                Showing {pagination.loadedCount} of {pagination.totalCount}
+              </p>
+            )}
           </section>
         </main>
       </div>
+      <TodoShortcutsDialog isOpen={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+      <TodoCompletionDialog
+        todos={completionRequest?.todos ?? []}
+        onCancel={() => setCompletionRequest(null)}
+        onComplete={(completeChecklist) => {
+          const request = completionRequest;
+          setCompletionRequest(null);
+          request?.complete(completeChecklist);
+        }}
+      />
     </div>
   );
 }
@@ -1,7 +1,7 @@
 // This file is auto-generated by @hey-api/openapi-ts
 
 import type { Options as ClientOptions, TDataShape, Client } from '@hey-api/client-fetch';
-import type { GetScalarData, GetApiTodosData, PostApiTodosData, DeleteApiTodosByIdData, GetApiTodosByIdData, PatchApiTodosByIdData, PostApiTodosByIdRestoreData } from './types.gen';
+import type { GetApiTodosData, GetApiTodosResponses, PostApiTodosData, PostApiTodosResponses, PostApiTodosErrors, GetApiTodosTagsData, GetApiTodosTagsResponses, DeleteApiTodosByIdData, DeleteApiTodosByIdResponses, DeleteApiTodosByIdErrors, GetApiTodosByIdData, GetApiTodosByIdResponses, GetApiTodosByIdErrors, PatchApiTodosByIdData, PatchApiTodosByIdResponses, PatchApiTodosByIdErrors, PostApiTodosBatchData, PostApiTodosBatchResponses, PostApiTodosBatchErrors, PostApiTodosByIdMoveData, PostApiTodosByIdMoveResponses, PostApiTodosByIdMoveErrors, PostApiTodosByIdRestoreData, PostApiTodosByIdRestoreResponses, PostApiTodosByIdRestoreErrors, GetApiTodosByIdChecklistData, GetApiTodosByIdChecklistResponses, GetApiTodosByIdChecklistErrors, PostApiTodosByIdChecklistData, PostApiTodosByIdChecklistResponses, PostApiTodosByIdChecklistErrors, DeleteApiTodosByIdChecklistByItemIdData, DeleteApiTodosByIdChecklistByItemIdResponses, DeleteApiTodosByIdChecklistByItemIdErrors, PatchApiTodosByIdChecklistByItemIdData, PatchApiTodosByIdChecklistByItemIdResponses, PatchApiTodosByIdChecklistByItemIdErrors, PutApiTodosByIdChecklistOrderData, PutApiTodosByIdChecklistOrderResponses, PutApiTodosByIdChecklistOrderErrors, PostApiTodosByIdChecklistByItemIdPromoteData, PostApiTodosByIdChecklistByItemIdPromoteResponses, PostApiTodosByIdChecklistByItemIdPromoteErrors, DeleteApiTodosTrashData, DeleteApiTodosTrashResponses, DeleteApiTodosTrashByIdData, DeleteApiTodosTrashByIdResponses, DeleteApiTodosTrashByIdErrors, GetApiListsData, GetApiListsResponses, PostApiListsData, PostApiListsResponses, PostApiListsErrors, DeleteApiListsByListIdData, DeleteApiListsByListIdResponses, DeleteApiListsByListIdErrors, PatchApiListsByListIdData, PatchApiListsByListIdResponses, PatchApiListsByListIdErrors } from './types.gen';
 import { client as _heyApiClient } from './client.gen';
 
 export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends boolean = boolean> = ClientOptions<TData, ThrowOnError> & {
@@ -18,22 +18,15 @@ export type Options<TData extends TDataShape = TDataShape, ThrowOnError extends
     meta?: Record<string, unknown>;
 };
 
-export const getScalar = <ThrowOnError extends boolean = false>(options?: Options<GetScalarData, ThrowOnError>) => {
-    return (options?.client ?? _heyApiClient).get<unknown, unknown, ThrowOnError>({
-        url: '/scalar',
-        ...options
-    });
-};
-
 export const getApiTodos = <ThrowOnError extends boolean = false>(options?: Options<GetApiTodosData, ThrowOnError>) => {
-    return (options?.client ?? _heyApiClient).get<unknown, unknown, ThrowOnError>({
+    return (options?.client ?? _heyApiClient).get<GetApiTodosResponses, unknown, ThrowOnError>({
         url: '/api/todos',
         ...options
     });
 };
 
 export const postApiTodos = <ThrowOnError extends boolean = false>(options: Options<PostApiTodosData, ThrowOnError>) => {
-    return (options.client ?? _heyApiClient).post<unknown, unknown, ThrowOnError>({
+    return (options.client ?? _heyApiClient).post<PostApiTodosResponses, PostApiTodosErrors, ThrowOnError>({
         url: '/api/todos',
         ...options,
         headers: {
@@ -43,22 +36,29 @@ export const postApiTodos = <ThrowOnError extends boolean = false>(options: Opti
     });
 };
 
+export const getApiTodosTags = <ThrowOnError extends boolean = false>(options?: Options<GetApiTodosTagsData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetApiTodosTagsResponses, unknown, ThrowOnError>({
+        url: '/api/todos/tags',
+        ...options
+    });
+};
+
 export const deleteApiTodosById = <ThrowOnError extends boolean = false>(options: Options<DeleteApiTodosByIdData, ThrowOnError>) => {
-    return (options.client ?? _heyApiClient).delete<unknown, unknown, ThrowOnError>({
+    return (options.client ?? _heyApiClient).delete<DeleteApiTodosByIdResponses, DeleteApiTodosByIdErrors, ThrowOnError>({
         url: '/api/todos/{id}',
         ...options
     });
 };
 
 export const getApiTodosById = <ThrowOnError extends boolean = false>(options: Options<GetApiTodosByIdData, ThrowOnError>) => {
-    return (options.client ?? _heyApiClient).get<unknown, unknown, ThrowOnError>({
+    return (options.client ?? _heyApiClient).get<GetApiTodosByIdResponses, GetApiTodosByIdErrors, ThrowOnError>({
         url: '/api/todos/{id}',
         ...options
     });
 };
 
 export const patchApiTodosById = <ThrowOnError extends boolean = false>(options: Options<PatchApiTodosByIdData, ThrowOnError>) => {
-    return (options.client ?? _heyApiClient).patch<unknown, unknown, ThrowOnError>({
+    return (options.client ?? _heyApiClient).patch<PatchApiTodosByIdResponses, PatchApiTodosByIdErrors, ThrowOnError>({
         url: '/api/todos/{id}',
         ...options,
         headers: {
@@ -68,9 +68,135 @@ export const patchApiTodosById = <ThrowOnError extends boolean = false>(options:
     });
 };
 
+export const postApiTodosBatch = <ThrowOnError extends boolean = false>(options: Options<PostApiTodosBatchData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<PostApiTodosBatchResponses, PostApiTodosBatchErrors, ThrowOnError>({
+        url: '/api/todos/batch',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+export const postApiTodosByIdMove = <ThrowOnError extends boolean = false>(options: Options<PostApiTodosByIdMoveData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<PostApiTodosByIdMoveResponses, PostApiTodosByIdMoveErrors, ThrowOnError>({
+        url: '/api/todos/{id}/move',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
 export const postApiTodosByIdRestore = <ThrowOnError extends boolean = false>(options: Options<PostApiTodosByIdRestoreData, ThrowOnError>) => {
-    return (options.client ?? _heyApiClient).post<unknown, unknown, ThrowOnError>({
+    return (options.client ?? _heyApiClient).post<PostApiTodosByIdRestoreResponses, PostApiTodosByIdRestoreErrors, ThrowOnError>({
         url: '/api/todos/{id}/restore',
         ...options
     });
-};
\ No newline at end of file
+};
+
+export const getApiTodosByIdChecklist = <ThrowOnError extends boolean = false>(options: Options<GetApiTodosByIdChecklistData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).get<GetApiTodosByIdChecklistResponses, GetApiTodosByIdChecklistErrors, ThrowOnError>({
+        url: '/api/todos/{id}/checklist',
+        ...options
+    });
+};
+
+export const postApiTodosByIdChecklist = <ThrowOnError extends boolean = false>(options: Options<PostApiTodosByIdChecklistData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<PostApiTodosByIdChecklistResponses, PostApiTodosByIdChecklistErrors, ThrowOnError>({
+        url: '/api/todos/{id}/checklist',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+export const deleteApiTodosByIdChecklistByItemId = <ThrowOnError extends boolean = false>(options: Options<DeleteApiTodosByIdChecklistByItemIdData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).delete<DeleteApiTodosByIdChecklistByItemIdResponses, DeleteApiTodosByIdChecklistByItemIdErrors, ThrowOnError>({
+        url: '/api/todos/{id}/checklist/{itemId}',
+        ...options
+    });
+};
+
+export const patchApiTodosByIdChecklistByItemId = <ThrowOnError extends boolean = false>(options: Options<PatchApiTodosByIdChecklistByItemIdData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).patch<PatchApiTodosByIdChecklistByItemIdResponses, PatchApiTodosByIdChecklistByItemIdErrors, ThrowOnError>({
+        url: '/api/todos/{id}/checklist/{itemId}',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+export const putApiTodosByIdChecklistOrder = <ThrowOnError extends boolean = false>(options: Options<PutApiTodosByIdChecklistOrderData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).put<PutApiTodosByIdChecklistOrderResponses, PutApiTodosByIdChecklistOrderErrors, ThrowOnError>({
+        url: '/api/todos/{id}/checklist/order',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+export const postApiTodosByIdChecklistByItemIdPromote = <ThrowOnError extends boolean = false>(options: Options<PostApiTodosByIdChecklistByItemIdPromoteData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<PostApiTodosByIdChecklistByItemIdPromoteResponses, PostApiTodosByIdChecklistByItemIdPromoteErrors, ThrowOnError>({
+        url: '/api/todos/{id}/checklist/{itemId}/promote',
+        ...options
+    });
+};
+
+export const deleteApiTodosTrash = <ThrowOnError extends boolean = false>(options?: Options<DeleteApiTodosTrashData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).delete<DeleteApiTodosTrashResponses, unknown, ThrowOnError>({
+        url: '/api/todos/trash',
+        ...options
+    });
+};
+
+export const deleteApiTodosTrashById = <ThrowOnError extends boolean = false>(options: Options<DeleteApiTodosTrashByIdData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).delete<DeleteApiTodosTrashByIdResponses, DeleteApiTodosTrashByIdErrors, ThrowOnError>({
+        url: '/api/todos/trash/{id}',
+        ...options
+    });
+};
+
+export const getApiLists = <ThrowOnError extends boolean = false>(options?: Options<GetApiListsData, ThrowOnError>) => {
+    return (options?.client ?? _heyApiClient).get<GetApiListsResponses, unknown, ThrowOnError>({
+        url: '/api/lists',
+        ...options
+    });
+};
+
+export const postApiLists = <ThrowOnError extends boolean = false>(options: Options<PostApiListsData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).post<PostApiListsResponses, PostApiListsErrors, ThrowOnError>({
+        url: '/api/lists',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
+
+export const deleteApiListsByListId = <ThrowOnError extends boolean = false>(options: Options<DeleteApiListsByListIdData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).delete<DeleteApiListsByListIdResponses, DeleteApiListsByListIdErrors, ThrowOnError>({
+        url: '/api/lists/{listId}',
+        ...options
+    });
+};
+
+export const patchApiListsByListId = <ThrowOnError extends boolean = false>(options: Options<PatchApiListsByListIdData, ThrowOnError>) => {
+    return (options.client ?? _heyApiClient).patch<PatchApiListsByListIdResponses, PatchApiListsByListIdErrors, ThrowOnError>({
+        url: '/api/lists/{listId}',
+        ...options,
+        headers: {
+            'Content-Type': 'application/json',
+            ...options?.headers
+        }
+    });
+};
@@ -1,33 +1,170 @@
 // This file is auto-generated by @hey-api/openapi-ts
 
+export type BatchTodoUpdate = {
+    id: number;
+    changes: UpdateTodoRequest;
+};
+
+export type BatchTodosRequest = {
+    updates: null | Array<BatchTodoUpdate>;
+    deletes: null | Array<number>;
+};
+
+export type BatchTodosResponse = {
+    updated: Array<TodoItemDto>;
+    deleted: Array<number>;
+};
+
+export type DayOfWeek = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export type CreateChecklistItemRequest = {
+    title: null | string;
+};
+
 export type CreateTodoRequest = {
     title: null | string;
     notes: null | string;
     dueDate: null | string;
-    sortOrder: null | string;
+    sortOrder: null | number;
+    isAllDay?: null | boolean;
+    tags?: null | Array<string>;
+    priority?: null | TodoPriority;
+    listId?: null | number;
+    repeat?: null | TodoRepeatRule;
+};
+
+export type CreateTodoListRequest = {
+    name: null | string;
+    color: null | string;
+};
+
+export type HttpValidationProblemDetails = {
+    type?: null | string;
+    title?: null | string;
+    status?: null | number;
+    detail?: null | string;
+    instance?: null | string;
+    errors?: {
+        [key: string]: Array<string>;
+    };
+    [key: string]: unknown;
+};
+
+export type MoveTodoRequest = {
+    afterId: null | number;
+    beforeId: null | number;
+};
+
+export type ProblemDetails = {
+    type?: null | string;
+    title?: null | string;
+    status?: null | number;
+    detail?: null | string;
+    instance?: null | string;
+    [key: string]: unknown;
+};
+
+export type PurgeTodosResponse = {
+    purged: number;
+};
+
+export type ReorderChecklistRequest = {
+    itemIds: null | Array<number>;
+};
+
+export type TodoChecklistItemDto = {
+    id: number;
+    todoId: number;
+    title: string;
+    isCompleted: boolean;
+    sortOrder: number;
+};
+
+export type TodoChecklistResponse = {
+    todo: TodoItemDto;
+    items: Array<TodoChecklistItemDto>;
+    promoted?: null | TodoItemDto;
+};
+
+export type TodoEvent = {
+    type: string;
+    todos: Array<TodoItemDto>;
+    ids: Array<number>;
+};
+
+export type TodoItemDto = {
+    id: number;
+    title: string;
+    notes: null | string;
+    isCompleted: boolean;
+    sortOrder: number;
+    dueDate: null | string;
+    isAllDay: boolean;
+    tags: Array<string>;
+    priority: TodoPriority;
+    listId: null | number;
+    repeat: null | TodoRepeatRule;
+    checklistCount: number;
+    checklistCompletedCount: number;
+    createdAt: string;
+    updatedAt: string;
+    deletedAt: null | string;
+};
+
+export type TodoListDto = {
+    id: number;
+    name: string;
+    color: string;
+    openCount: number;
+    createdAt: string;
+};
+
+export type TodoListsResponse = {
+    lists: Array<TodoListDto>;
+    openCount: number;
+};
+
+export type TodoPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent';
+
+export type TodoRepeatFrequency = 'daily' | 'weekly' | 'monthlyByDate' | 'monthlyByWeekday' | 'afterCompletion';
+
+export type TodoRepeatRule = {
+    frequency: TodoRepeatFrequency;
+    interval?: number;
+    weekdays?: null | Array<DayOfWeek>;
+    timeZone?: null | string;
+};
+
+export type TodoTagDto = {
+    name: string;
+    count: number;
+};
+
+export type UpdateChecklistItemRequest = {
+    title: null | string;
+    isCompleted: null | boolean;
 };
 
 export type UpdateTodoRequest = {
     title: null | string;
     notes: null | string;
     dueDate: null | string;
-    sortOrder: null | string;
+    sortOrder: null | number;
     isCompleted: null | boolean;
     clearDueDate?: boolean;
+    isAllDay?: null | boolean;
+    tags?: null | Array<string>;
+    priority?: null | TodoPriority;
+    completeChecklist?: boolean;
+    listId?: null | number;
+    clearListId?: boolean;
+    repeat?: null | TodoRepeatRule;
+    clearRepeat?: boolean;
 };
 
-export type GetScalarData = {
-    body?: never;
-    path?: never;
-    query?: never;
-    url: '/scalar';
-};
-
-export type GetScalarResponses = {
-    /**
-     * OK
-     */
-    200: unknown;
+export type UpdateTodoListRequest = {
+    name: null | string;
+    color: null | string;
 };
 
 export type GetApiTodosData = {
@@ -36,8 +173,11 @@ export type GetApiTodosData = {
     query?: {
         completed?: boolean;
         q?: string;
-        page?: string;
-        pageSize?: string;
+        tag?: string;
+        listId?: number;
+        deleted?: boolean;
+        page?: number;
+        pageSize?: number;
         sort?: string;
     };
     url: '/api/todos';
@@ -47,9 +187,11 @@ export type GetApiTodosResponses = {
     /**
      * OK
      */
-    200: unknown;
+    200: Array<TodoItemDto>;
 };
 
+export type GetApiTodosResponse = GetApiTodosResponses[keyof GetApiTodosResponses];
+
 export type PostApiTodosData = {
     body: CreateTodoRequest;
     path?: never;
@@ -57,13 +199,56 @@ export type PostApiTodosData = {
     url: '/api/todos';
 };
 
+export type PostApiTodosErrors = {
+    /**
+     * Bad Request
+     */
+    400: HttpValidationProblemDetails;
+};
+
+export type PostApiTodosError = PostApiTodosErrors[keyof PostApiTodosErrors];
+
 export type PostApiTodosResponses = {
+    /**
+     * Created
+     */
+    201: TodoItemDto;
+};
+
+export type PostApiTodosResponse = PostApiTodosResponses[keyof PostApiTodosResponses];
+
+export type GetApiTodosTagsData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/todos/tags';
+};
+
+export type GetApiTodosTagsResponses = {
     /**
      * OK
      */
-    200: unknown;
+    200: Array<TodoTagDto>;
 };
 
+export type GetApiTodosTagsResponse = GetApiTodosTagsResponses[keyof GetApiTodosTagsResponses];
+
+export type GetApiTodosEventsData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/todos/events';
+};
+
+export type GetApiTodosEventsResponses = {
+    /**
+     * OK
+     */
+    200: TodoEvent;
+};
+
+export type GetApiTodosEventsResponse = GetApiTodosEventsResponses[keyof GetApiTodosEventsResponses];
+
 export type DeleteApiTodosByIdData = {
     body?: never;
     path: {
@@ -73,13 +258,22 @@ export type DeleteApiTodosByIdData = {
     url: '/api/todos/{id}';
 };
 
+export type DeleteApiTodosByIdErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
 export type DeleteApiTodosByIdResponses = {
     /**
-     * OK
+     * No Content
      */
-    200: unknown;
+    204: void;
 };
 
+export type DeleteApiTodosByIdResponse = DeleteApiTodosByIdResponses[keyof DeleteApiTodosByIdResponses];
+
 export type GetApiTodosByIdData = {
     body?: never;
     path: {
@@ -89,15 +283,27 @@ export type GetApiTodosByIdData = {
     url: '/api/todos/{id}';
 };
 
+export type GetApiTodosByIdErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
 export type GetApiTodosByIdResponses = {
     /**
      * OK
      */
-    200: unknown;
+    200: TodoItemDto;
 };
 
+export type GetApiTodosByIdResponse = GetApiTodosByIdResponses[keyof GetApiTodosByIdResponses];
+
 export type PatchApiTodosByIdData = {
     body: UpdateTodoRequest;
+    headers?: {
+        'If-Match'?: string;
+    };
     path: {
         id: number;
     };
@@ -105,13 +311,92 @@ export type PatchApiTodosByIdData = {
     url: '/api/todos/{id}';
 };
 
+export type PatchApiTodosByIdErrors = {
+    /**
+     * Bad Request
+     */
+    400: HttpValidationProblemDetails;
+    /**
+     * Not Found
+     */
+    404: unknown;
+    /**
+     * Precondition Failed
+     */
+    412: TodoItemDto;
+};
+
+export type PatchApiTodosByIdError = PatchApiTodosByIdErrors[keyof PatchApiTodosByIdErrors];
+
 export type PatchApiTodosByIdResponses = {
     /**
      * OK
      */
-    200: unknown;
+    200: TodoItemDto;
+};
+
+export type PatchApiTodosByIdResponse = PatchApiTodosByIdResponses[keyof PatchApiTodosByIdResponses];
+
+export type PostApiTodosBatchData = {
+    body: BatchTodosRequest;
+    path?: never;
+    query?: never;
+    url: '/api/todos/batch';
+};
+
+export type PostApiTodosBatchErrors = {
+    /**
+     * Bad Request
+     */
+    400: HttpValidationProblemDetails;
+    /**
+     * Not Found
+     */
+    404: ProblemDetails;
+};
+
+export type PostApiTodosBatchError = PostApiTodosBatchErrors[keyof PostApiTodosBatchErrors];
+
+export type PostApiTodosBatchResponses = {
+    /**
+     * OK
+     */
+    200: BatchTodosResponse;
+};
+
+export type PostApiTodosBatchResponse = PostApiTodosBatchResponses[keyof PostApiTodosBatchResponses];
+
+export type PostApiTodosByIdMoveData = {
+    body: MoveTodoRequest;
+    path: {
+        id: number;
+    };
+    query?: never;
+    url: '/api/todos/{id}/move';
+};
+
+export type PostApiTodosByIdMoveErrors = {
+    /**
+     * Bad Request
+     */
+    400: ProblemDetails;
+    /**
+     * Not Found
+     */
+    404: ProblemDetails;
+};
+
+export type PostApiTodosByIdMoveError = PostApiTodosByIdMoveErrors[keyof PostApiTodosByIdMoveErrors];
+
+export type PostApiTodosByIdMoveResponses = {
+    /**
+     * OK
+     */
+    200: Array<TodoItemDto>;
 };
 
+export type PostApiTodosByIdMoveResponse = PostApiTodosByIdMoveResponses[keyof PostApiTodosByIdMoveResponses];
+
 export type PostApiTodosByIdRestoreData = {
     body?: never;
     path: {
@@ -121,13 +406,337 @@ export type PostApiTodosByIdRestoreData = {
     url: '/api/todos/{id}/restore';
 };
 
+export type PostApiTodosByIdRestoreErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
 export type PostApiTodosByIdRestoreResponses = {
     /**
      * OK
      */
-    200: unknown;
+    200: TodoItemDto;
 };
 
+export type PostApiTodosByIdRestoreResponse = PostApiTodosByIdRestoreResponses[keyof PostApiTodosByIdRestoreResponses];
+
+export type GetApiTodosByIdChecklistData = {
+    body?: never;
+    path: {
+        id: number;
+    };
+    query?: never;
+    url: '/api/todos/{id}/checklist';
+};
+
+export type GetApiTodosByIdChecklistErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type GetApiTodosByIdChecklistError = GetApiTodosByIdChecklistErrors[keyof GetApiTodosByIdChecklistErrors];
+
+export type GetApiTodosByIdChecklistResponses = {
+    /**
+     * OK
+     */
+    200: Array<TodoChecklistItemDto>;
+};
+
+export type GetApiTodosByIdChecklistResponse = GetApiTodosByIdChecklistResponses[keyof GetApiTodosByIdChecklistResponses];
+
+export type PostApiTodosByIdChecklistData = {
+    body: CreateChecklistItemRequest;
+    path: {
+        id: number;
+    };
+    query?: never;
+    url: '/api/todos/{id}/checklist';
+};
+
+export type PostApiTodosByIdChecklistErrors = {
+    /**
+     * Bad Request
+     */
+    400: HttpValidationProblemDetails;
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type PostApiTodosByIdChecklistError = PostApiTodosByIdChecklistErrors[keyof PostApiTodosByIdChecklistErrors];
+
+export type PostApiTodosByIdChecklistResponses = {
+    /**
+     * OK
+     */
+    200: TodoChecklistResponse;
+};
+
+export type PostApiTodosByIdChecklistResponse = PostApiTodosByIdChecklistResponses[keyof PostApiTodosByIdChecklistResponses];
+
+export type DeleteApiTodosByIdChecklistByItemIdData = {
+    body?: never;
+    path: {
+        id: number;
+        itemId: number;
+    };
+    query?: never;
+    url: '/api/todos/{id}/checklist/{itemId}';
+};
+
+export type DeleteApiTodosByIdChecklistByItemIdErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type DeleteApiTodosByIdChecklistByItemIdError = DeleteApiTodosByIdChecklistByItemIdErrors[keyof DeleteApiTodosByIdChecklistByItemIdErrors];
+
+export type DeleteApiTodosByIdChecklistByItemIdResponses = {
+    /**
+     * OK
+     */
+    200: TodoChecklistResponse;
+};
+
+export type DeleteApiTodosByIdChecklistByItemIdResponse = DeleteApiTodosByIdChecklistByItemIdResponses[keyof DeleteApiTodosByIdChecklistByItemIdResponses];
+
+export type PatchApiTodosByIdChecklistByItemIdData = {
+    body: UpdateChecklistItemRequest;
+    path: {
+        id: number;
+        itemId: number;
+    };
+    query?: never;
+    url: '/api/todos/{id}/checklist/{itemId}';
+};
+
+export type PatchApiTodosByIdChecklistByItemIdErrors = {
+    /**
+     * Bad Request
+     */
+    400: HttpValidationProblemDetails;
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type PatchApiTodosByIdChecklistByItemIdError = PatchApiTodosByIdChecklistByItemIdErrors[keyof PatchApiTodosByIdChecklistByItemIdErrors];
+
+export type PatchApiTodosByIdChecklistByItemIdResponses = {
+    /**
+     * OK
+     */
+    200: TodoChecklistResponse;
+};
+
+export type PatchApiTodosByIdChecklistByItemIdResponse = PatchApiTodosByIdChecklistByItemIdResponses[keyof PatchApiTodosByIdChecklistByItemIdResponses];
+
+export type PutApiTodosByIdChecklistOrderData = {
+    body: ReorderChecklistRequest;
+    path: {
+        id: number;
+    };
+    query?: never;
+    url: '/api/todos/{id}/checklist/order';
+};
+
+export type PutApiTodosByIdChecklistOrderErrors = {
+    /**
+     * Bad Request
+     */
+    400: ProblemDetails;
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type PutApiTodosByIdChecklistOrderError = PutApiTodosByIdChecklistOrderErrors[keyof PutApiTodosByIdChecklistOrderErrors];
+
+export type PutApiTodosByIdChecklistOrderResponses = {
+    /**
+     * OK
+     */
+    200: TodoChecklistResponse;
+};
+
+export type PutApiTodosByIdChecklistOrderResponse = PutApiTodosByIdChecklistOrderResponses[keyof PutApiTodosByIdChecklistOrderResponses];
+
+export type PostApiTodosByIdChecklistByItemIdPromoteData = {
+    body?: never;
+    path: {
+        id: number;
+        itemId: number;
+    };
+    query?: never;
+    url: '/api/todos/{id}/checklist/{itemId}/promote';
+};
+
+export type PostApiTodosByIdChecklistByItemIdPromoteErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type PostApiTodosByIdChecklistByItemIdPromoteError = PostApiTodosByIdChecklistByItemIdPromoteErrors[keyof PostApiTodosByIdChecklistByItemIdPromoteErrors];
+
+export type PostApiTodosByIdChecklistByItemIdPromoteResponses = {
+    /**
+     * OK
+     */
+    200: TodoChecklistResponse;
+};
+
+export type PostApiTodosByIdChecklistByItemIdPromoteResponse = PostApiTodosByIdChecklistByItemIdPromoteResponses[keyof PostApiTodosByIdChecklistByItemIdPromoteResponses];
+
+export type DeleteApiTodosTrashData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/todos/trash';
+};
+
+export type DeleteApiTodosTrashResponses = {
+    /**
+     * OK
+     */
+    200: PurgeTodosResponse;
+};
+
+export type DeleteApiTodosTrashResponse = DeleteApiTodosTrashResponses[keyof DeleteApiTodosTrashResponses];
+
+export type DeleteApiTodosTrashByIdData = {
+    body?: never;
+    path: {
+        id: number;
+    };
+    query?: never;
+    url: '/api/todos/trash/{id}';
+};
+
+export type DeleteApiTodosTrashByIdErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type DeleteApiTodosTrashByIdResponses = {
+    /**
+     * No Content
+     */
+    204: void;
+};
+
+export type DeleteApiTodosTrashByIdResponse = DeleteApiTodosTrashByIdResponses[keyof DeleteApiTodosTrashByIdResponses];
+
+export type GetApiListsData = {
+    body?: never;
+    path?: never;
+    query?: never;
+    url: '/api/lists';
+};
+
+export type GetApiListsResponses = {
+    /**
+     * OK
+     */
+    200: TodoListsResponse;
+};
+
+export type GetApiListsResponse = GetApiListsResponses[keyof GetApiListsResponses];
+
+export type PostApiListsData = {
+    body: CreateTodoListRequest;
+    path?: never;
+    query?: never;
+    url: '/api/lists';
+};
+
+export type PostApiListsErrors = {
+    /**
+     * Bad Request
+     */
+    400: HttpValidationProblemDetails;
+};
+
+export type PostApiListsError = PostApiListsErrors[keyof PostApiListsErrors];
+
+export type PostApiListsResponses = {
+    /**
+     * Created
+     */
+    201: TodoListDto;
+};
+
+export type PostApiListsResponse = PostApiListsResponses[keyof PostApiListsResponses];
+
+export type DeleteApiListsByListIdData = {
+    body?: never;
+    path: {
+        listId: number;
+    };
+    query?: never;
+    url: '/api/lists/{listId}';
+};
+
+export type DeleteApiListsByListIdErrors = {
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type DeleteApiListsByListIdResponses = {
+    /**
+     * No Content
+     */
+    204: void;
+};
+
+export type DeleteApiListsByListIdResponse = DeleteApiListsByListIdResponses[keyof DeleteApiListsByListIdResponses];
+
+export type PatchApiListsByListIdData = {
+    body: UpdateTodoListRequest;
+    path: {
+        listId: number;
+    };
+    query?: never;
+    url: '/api/lists/{listId}';
+};
+
+export type PatchApiListsByListIdErrors = {
+    /**
+     * Bad Request
+     */
+    400: HttpValidationProblemDetails;
+    /**
+     * Not Found
+     */
+    404: unknown;
+};
+
+export type PatchApiListsByListIdError = PatchApiListsByListIdErrors[keyof PatchApiListsByListIdErrors];
+
+export type PatchApiListsByListIdResponses = {
+    /**
+     * OK
+     */
+    200: TodoListDto;
+};
+
+export type PatchApiListsByListIdResponse = PatchApiListsByListIdResponses[keyof PatchApiListsByListIdResponses];
+
 export type ClientOptions = {
     baseUrl: 'https://localhost:7448/' | (string & {});
-};
\ No newline at end of file
+};
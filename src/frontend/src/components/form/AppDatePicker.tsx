@@ -0,0 +1,54 @@
+"use client";
+
+import { parseDate, type CalendarDate } from "@internationalized/date";
+import { DatePicker, type DatePickerProps } from "@/components/ui/DatePicker";
+import { useFieldContext } from "@/lib/form-context";
+
+export interface AppDatePickerProps extends Omit<
+  DatePickerProps<CalendarDate>,
+  "value" | "onChange" | "onBlur"
+> {
+  /** Label text displayed above the input */
+  label?: string;
+  /** Description text displayed below the input */
+  description?: string;
+}
+
+const toCalendarDate = (value: string) => {
+  try {
+    return value ? parseDate(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pre-bound DatePicker component for use with TanStack Form.
+ *
+ * Binds a `YYYY-MM-DD` string field, where an empty string means no date.
+ *
+ * @example
+ * ```tsx
+ * <form.AppField name="dueDate" children={() => <AppDatePicker label="Due date" />} />
+ * ```
+ */
+export function AppDatePicker({ label, description, ...props }: AppDatePickerProps) {
+  const field = useFieldContext<string>();
+
+  const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
+  const errorMessage = field.state.meta.errors.join(", ");
+
+  return (
+    <DatePicker
+      {...props}
+      name={field.name}
+      value={toCalendarDate(field.state.value)}
+      onChange={(value) => field.handleChange(value ? value.toString() : "")}
+      onBlur={field.handleBlur}
+      isInvalid={isInvalid}
+      label={label}
+      description={description}
+      errorMessage={isInvalid ? errorMessage : undefined}
+    />
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { Select, SelectItem, type SelectProps } from "@/components/ui/Select";
+import { useFieldContext } from "@/lib/form-context";
+
+export type AppSelectOption = {
+  id: string;
+  label: string;
+};
+
+export interface AppSelectProps extends Omit<
+  SelectProps<AppSelectOption>,
+  "value" | "onChange" | "onBlur" | "items" | "children"
+> {
+  /** Label text displayed above the input */
+  label?: string;
+  /** Description text displayed below the input */
+  description?: string;
+  /** The choices offered, in display order */
+  options: readonly AppSelectOption[];
+}
+
+/**
+ * Pre-bound Select component for use with TanStack Form.
+ *
+ * Binds a string field to one of `options`, with the same validation display as the other fields.
+ *
+ * @example
+ * ```tsx
+ * <form.AppField
+ *   name="priority"
+ *   children={() => <AppSelect label="Priority" options={priorityOptions} />}
+ * />
+ * ```
+ */
+export function AppSelect({ label, description, options, ...props }: AppSelectProps) {
+  const field = useFieldContext<string>();
+
+  const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
+  const errorMessage = field.state.meta.errors.join(", ");
+
+  return (
+    <Select
+      {...props}
+      name={field.name}
+      value={field.state.value}
+      onChange={(key) => {
+        if (typeof key === "string") {
+          field.handleChange(key);
+        }
+      }}
+      onBlur={field.handleBlur}
+      isInvalid={isInvalid}
+      label={label}
+      description={description}
+      errorMessage={isInvalid ? errorMessage : undefined}
+      items={options}
+    >
+      {(option) => <SelectItem id={option.id}>{option.label}</SelectItem>}
+    </Select>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { ComboBox, ComboBoxItem } from "@/components/ui/ComboBox";
+import { Tag, TagGroup } from "@/components/ui/TagGroup";
+import { useFieldContext } from "@/lib/form-context";
+import { normalizeTag } from "@/lib/tags";
+
+export interface AppTagFieldProps {
+  /** Label text displayed above the input */
+  label?: string;
+  /** Description text displayed below the input */
+  description?: string;
+  placeholder?: string;
+  /** Existing tags offered while typing */
+  suggestions?: readonly string[];
+  className?: string;
+}
+
+/**
+ * Pre-bound tag editor for use with TanStack Form, binding a `string[]` field.
+ *
+ * Tags are added by picking a suggestion, pressing Enter or typing a comma, and removed from the
+ * chips below the input. New tags are normalized the way the server stores them.
+ *
+ * @example
+ * ```tsx
+ * <form.AppField name="tags" children={() => <AppTagField label="Tags" suggestions={tags} />} />
+ * ```
+ */
+export function AppTagField({
+  label,
+  description,
+  placeholder,
+  suggestions = [],
+  className,
+}: AppTagFieldProps) {
+  const field = useFieldContext<string[]>();
+  const [inputValue, setInputValue] = useState("");
+
+  const tags = field.state.value;
+  const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
+  const errorMessage = field.state.meta.errors.join(", ");
+  const items = suggestions
+    .filter((suggestion) => !tags.includes(suggestion))
+    .map((suggestion) => ({ id: suggestion }));
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      field.handleChange([...tags, tag]);
+    }
+    setInputValue("");
+  };
+
+  return (
+    <div className={`flex flex-col gap-2 ${className ?? ""}`}>
+      <ComboBox
+        label={label}
+        description={description}
+        placeholder={placeholder}
+        items={items}
+        allowsCustomValue
+        inputValue={inputValue}
+        onInputChange={(value) => {
+          if (value.endsWith(",")) {
+            addTag(value.slice(0, -1));
+          } else {
+            setInputValue(value);
+          }
+        }}
+        selectedKey={null}
+        onSelectionChange={(key) => {
+          if (key !== null) {
+            addTag(String(key));
+          }
+        }}
+        onKeyDown={(event) => {
+          // An open list handles Enter itself; otherwise Enter adds the tag instead of submitting.
+          if (event.key === "Enter" && !event.isDefaultPrevented() && inputValue.trim()) {
+            event.preventDefault();
+            addTag(inputValue);
+          }
+        }}
+        onBlur={field.handleBlur}
+        isInvalid={isInvalid}
+        errorMessage={isInvalid ? errorMessage : undefined}
+      >
+        {(item) => <ComboBoxItem id={item.id}>{`#${item.id}`}</ComboBoxItem>}
+      </ComboBox>
+      {tags.length > 0 && (
+        <TagGroup
+          aria-label={label ?? "Tags"}
+          color="blue"
+          onRemove={(keys) => field.handleChange(tags.filter((tag) => !keys.has(tag)))}
+        >
+          {tags.map((tag) => (
+            <Tag key={tag} id={tag} textValue={tag}>
+              #{tag}
+            </Tag>
+          ))}
+        </TagGroup>
+      )}
+    </div>
+  );
+}
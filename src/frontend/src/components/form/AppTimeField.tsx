@@ -0,0 +1,54 @@
+"use client";
+
+import { parseTime, type Time } from "@internationalized/date";
+import { TimeField, type TimeFieldProps } from "@/components/ui/TimeField";
+import { useFieldContext } from "@/lib/form-context";
+
+export interface AppTimeFieldProps extends Omit<
+  TimeFieldProps<Time>,
+  "value" | "onChange" | "onBlur"
+> {
+  /** Label text displayed above the input */
+  label?: string;
+  /** Description text displayed below the input */
+  description?: string;
+}
+
+const toTime = (value: string) => {
+  try {
+    return value ? parseTime(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pre-bound TimeField component for use with TanStack Form.
+ *
+ * Binds an `HH:mm` string field, where an empty string means no time.
+ *
+ * @example
+ * ```tsx
+ * <form.AppField name="dueTime" children={() => <AppTimeField label="Due time" />} />
+ * ```
+ */
+export function AppTimeField({ label, description, ...props }: AppTimeFieldProps) {
+  const field = useFieldContext<string>();
+
+  const isInvalid = field.state.meta.isTouched && !field.state.meta.isValid;
+  const errorMessage = field.state.meta.errors.join(", ");
+
+  return (
+    <TimeField
+      {...props}
+      name={field.name}
+      value={toTime(field.state.value)}
+      onChange={(value) => field.handleChange(value ? value.toString().slice(0, 5) : "")}
+      onBlur={field.handleBlur}
+      isInvalid={isInvalid}
+      label={label}
+      description={description}
+      errorMessage={isInvalid ? errorMessage : undefined}
+    />
+  );
+}
@@ -1,4 +1,8 @@
 // Form field components
 export { AppTextField, type AppTextFieldProps } from "./AppTextField";
+export { AppDatePicker, type AppDatePickerProps } from "./AppDatePicker";
+export { AppTimeField, type AppTimeFieldProps } from "./AppTimeField";
+export { AppSelect, type AppSelectOption, type AppSelectProps } from "./AppSelect";
+export { AppTagField, type AppTagFieldProps } from "./AppTagField";
 export { AppCheckbox, type AppCheckboxProps } from "./AppCheckbox";
 export { AppSubmitButton, type AppSubmitButtonProps } from "./AppSubmitButton";
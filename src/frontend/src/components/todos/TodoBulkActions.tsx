@@ -0,0 +1,98 @@
+import { CalendarClockIcon, CheckIcon, RotateCcwIcon, Trash2Icon, XIcon } from "lucide-react";
+import { DialogTrigger } from "react-aria-components";
+import { Button } from "@/components/ui/Button";
+import { Calendar } from "@/components/ui/Calendar";
+import { Dialog } from "@/components/ui/Dialog";
+import { Popover } from "@/components/ui/Popover";
+import { Toolbar } from "@/components/ui/Toolbar";
+
+export type TodoBulkActionsProps = {
+  selectedCount: number;
+  isDisabled?: boolean;
+  onComplete: () => void;
+  onReopen: () => void;
+  /** Called with a `YYYY-MM-DD` date, or `null` to clear the due date */
+  onReschedule: (dueDate: string | null) => void;
+  onDelete: () => void;
+  onClearSelection: () => void;
+};
+
+const actionClass = "h-8 rounded-md px-2.5 text-xs font-medium";
+
+export function TodoBulkActions({
+  selectedCount,
+  isDisabled,
+  onComplete,
+  onReopen,
+  onReschedule,
+  onDelete,
+  onClearSelection,
+}: TodoBulkActionsProps) {
+  return (
+    <Toolbar
+      aria-label="Bulk actions"
+      className="items-center gap-1 rounded-lg border border-[color:var(--accent-border)] bg-[color:var(--accent-soft)] px-2 py-1 app-rise"
+    >
+      <span className="px-1.5 text-xs font-semibold text-ink tabular-nums" aria-live="polite">
+        {selectedCount} selected
+      </span>
+      <div className="flex-1" />
+      <Button variant="quiet" isDisabled={isDisabled} onPress={onComplete} className={actionClass}>
+        <CheckIcon aria-hidden className="h-3.5 w-3.5" />
+        Complete
+      </Button>
+      <Button variant="quiet" isDisabled={isDisabled} onPress={onReopen} className={actionClass}>
+        <RotateCcwIcon aria-hidden className="h-3.5 w-3.5" />
+        Reopen
+      </Button>
+      <DialogTrigger>
+        <Button variant="quiet" isDisabled={isDisabled} className={actionClass}>
+          <CalendarClockIcon aria-hidden className="h-3.5 w-3.5" />
+          Reschedule
+        </Button>
+        <Popover placement="bottom end">
+          <Dialog aria-label="Pick a new due date">
+            {({ close }) => (
+              <div className="flex flex-col gap-2">
+                <Calendar
+                  aria-label="New due date"
+                  onChange={(value) => {
+                    onReschedule(value.toString());
+                    close();
+                  }}
+                />
+                <Button
+                  variant="secondary"
+                  onPress={() => {
+                    onReschedule(null);
+                    close();
+                  }}
+                  className={actionClass}
+                >
+                  Clear due date
+                </Button>
+              </div>
+            )}
+          </Dialog>
+        </Popover>
+      </DialogTrigger>
+      <Button
+        variant="quiet"
+        isDisabled={isDisabled}
+        onPress={onDelete}
+        className={`${actionClass} hover:text-[color:var(--danger)]`}
+      >
+        <Trash2Icon aria-hidden className="h-3.5 w-3.5" />
+        Delete
+      </Button>
+      <Button
+        variant="quiet"
+        onPress={onClearSelection}
+        aria-label="Clear selection"
+        className="h-8 w-8 rounded-md"
+      >
+        <XIcon aria-hidden className="h-3.5 w-3.5" />
+      </Button>
+    </Toolbar>
+  );
+}
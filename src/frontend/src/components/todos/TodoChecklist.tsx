@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { ArrowUpRightIcon, PlusIcon, XIcon } from "lucide-react";
+import { useDragAndDrop } from "react-aria-components";
+import { Button } from "@/components/ui/Button";
+import { Checkbox } from "@/components/ui/Checkbox";
+import { GridList, GridListItem } from "@/components/ui/GridList";
+import { ProgressBar } from "@/components/ui/ProgressBar";
+import { TextField } from "@/components/ui/TextField";
+import { queue as toastQueue } from "@/components/ui/Toast";
+import {
+  addChecklistItem,
+  deleteChecklistItem,
+  promoteChecklistItem,
+  reorderChecklist,
+  updateChecklistItem,
+  useTodoChecklist,
+} from "@/db/todo-checklist";
+
+// Matches the server's limit for todo and checklist item titles.
+const itemTitleMaxLength = 200;
+
+const itemActionClass = "h-7 w-7 shrink-0 rounded-md text-muted/60 hover:text-ink";
+
+export type TodoChecklistProps = {
+  todoId: number;
+};
+
+/**
+ * The todo's checklist. Changes save straight away rather than with the editor's form, and items
+ * can be dragged into order or promoted to todos of their own.
+ */
+export function TodoChecklist({ todoId }: TodoChecklistProps) {
+  const { data: items = [], isLoading, isError } = useTodoChecklist(todoId);
+  const [newTitle, setNewTitle] = useState("");
+
+  const completedCount = items.filter((item) => item.isCompleted).length;
+  // Items waiting for the server's id can't be addressed yet.
+  const pendingIds = items.filter((item) => item.id < 0).map((item) => item.id);
+
+  const { dragAndDropHooks } = useDragAndDrop({
+    getItems: (keys) =>
+      [...keys].map((key) => ({
+        "text/plain": items.find((item) => item.id === key)?.title ?? "",
+      })),
+    onReorder: (event) => {
+      const moved = items.filter((item) => event.keys.has(item.id));
+      const remaining = items.filter((item) => !event.keys.has(item.id));
+      const targetIndex = remaining.findIndex((item) => item.id === event.target.key);
+
+      if (moved.length === 0 || targetIndex === -1 || pendingIds.length > 0) {
+        return;
+      }
+
+      remaining.splice(
+        event.target.dropPosition === "after" ? targetIndex + 1 : targetIndex,
+        0,
+        ...moved,
+      );
+      void reorderChecklist(
+        todoId,
+        remaining.map((item) => item.id),
+      );
+    },
+  });
+
+  const handleAdd = () => {
+    const title = newTitle.trim();
+    if (!title) {
+      return;
+    }
+
+    setNewTitle("");
+    void addChecklistItem(todoId, title);
+  };
+
+  const handlePromote = async (itemId: number) => {
+    const promoted = await promoteChecklistItem(todoId, itemId);
+    if (promoted) {
+      toastQueue.add({ title: `Added "${promoted.title}" as a task` });
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-2" aria-label="Checklist">
+      {items.length > 0 ? (
+        <ProgressBar
+          label="Checklist"
+          value={completedCount}
+          maxValue={items.length}
+          valueLabel={`${completedCount} of ${items.length} done`}
+          className="w-full"
+        />
+      ) : (
+        <p className="text-sm font-medium text-ink">Checklist</p>
+      )}
+
+      {isError && (
+        <p className="text-xs text-[color:var(--danger)]">Could not load the checklist.</p>
+      )}
+
+      {items.length > 0 && (
+        <GridList
+          aria-label="Checklist items"
+          items={items}
+          dragAndDropHooks={dragAndDropHooks}
+          disabledKeys={pendingIds}
+          className="w-full max-h-64"
+        >
+          {(item) => (
+            <GridListItem id={item.id} textValue={item.title}>
+              <div className="flex min-w-0 flex-1 items-center gap-2">
+                <Checkbox
+                  isSelected={item.isCompleted}
+                  onChange={(isCompleted) =>
+                    void updateChecklistItem(todoId, item.id, { isCompleted })
+                  }
+                  className="min-w-0 flex-1"
+                >
+                  <span
+                    className={`truncate ${item.isCompleted ? "text-muted line-through decoration-muted/40" : ""}`}
+                  >
+                    {item.title}
+                  </span>
+                </Checkbox>
+                <Button
+                  variant="quiet"
+                  onPress={() => void handlePromote(item.id)}
+                  aria-label={`Make "${item.title}" a task`}
+                  className={itemActionClass}
+                >
+                  <ArrowUpRightIcon aria-hidden className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="quiet"
+                  onPress={() => void deleteChecklistItem(todoId, item.id)}
+                  aria-label={`Delete "${item.title}"`}
+                  className={`${itemActionClass} hover:text-[color:var(--danger)]`}
+                >
+                  <XIcon aria-hidden className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </GridListItem>
+          )}
+        </GridList>
+      )}
+
+      <div className="flex items-start gap-2">
+        <TextField
+          aria-label="New checklist item"
+          placeholder={isLoading ? "Loading checklist..." : "Add an item"}
+          value={newTitle}
+          onChange={setNewTitle}
+          maxLength={itemTitleMaxLength}
+          isDisabled={isLoading || isError}
+          // The checklist sits inside the editor's form, so Enter adds an item instead of saving.
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleAdd();
+            }
+          }}
+          className="flex-1"
+        />
+        <Button
+          variant="secondary"
+          onPress={handleAdd}
+          isDisabled={!newTitle.trim()}
+          aria-label="Add checklist item"
+          className="h-11 w-11 shrink-0 rounded-lg"
+        >
+          <PlusIcon aria-hidden className="h-4 w-4" />
+        </Button>
+      </div>
+    </section>
+  );
+}
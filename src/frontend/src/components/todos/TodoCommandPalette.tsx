@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from "react";
+import { useLiveQuery } from "@tanstack/react-db";
+import { useNavigate } from "@tanstack/react-router";
+import { CommandPalette } from "@/components/ui/CommandPalette";
+import { MenuItem } from "@/components/ui/Menu";
+import { queue as toastQueue } from "@/components/ui/Toast";
+import { exportTodos, getTodoList, isTemporaryTodoId, useTodoPagination } from "@/db/todos";
+import { showErrorToast } from "@/lib/api-error";
+import { fuzzyScore, useCommands, useRegisterCommands, type Command } from "@/lib/commands";
+import { useTheme } from "@/lib/theme";
+
+const maxTodoResults = 8;
+
+const downloadJson = (fileName: string, value: unknown) => {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(value, null, 2)], { type: "application/json" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const handleExport = async () => {
+  try {
+    const todos = await exportTodos();
+    downloadJson(`todos-${new Date().toISOString().slice(0, 10)}.json`, todos);
+    toastQueue.add({
+      title: todos.length === 1 ? "Exported 1 task" : `Exported ${todos.length} tasks`,
+    });
+  } catch (err) {
+    showErrorToast(err, "Could not export your tasks.");
+  }
+};
+
+/**
+ * The app-wide command palette, opened with Cmd/Ctrl+J. Lists the commands registered by mounted
+ * routes next to the global ones, and searches todo titles once the user starts typing.
+ */
+export function TodoCommandPalette() {
+  const navigate = useNavigate();
+  const { setTheme } = useTheme();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const globalCommands = useMemo<Command[]>(
+    () => [
+      {
+        id: "go-tasks",
+        label: "Go to tasks",
+        section: "Navigation",
+        run: () => navigate({ to: "/" }),
+      },
+      {
+        id: "open-trash",
+        label: "Open trash",
+        section: "Navigation",
+        keywords: ["deleted"],
+        run: () => navigate({ to: "/trash" }),
+      },
+      {
+        id: "theme-light",
+        label: "Use light theme",
+        section: "Theme",
+        run: () => setTheme("light"),
+      },
+      {
+        id: "theme-dark",
+        label: "Use dark theme",
+        section: "Theme",
+        run: () => setTheme("dark"),
+      },
+      {
+        id: "theme-system",
+        label: "Use system theme",
+        section: "Theme",
+        run: () => setTheme("system"),
+      },
+      {
+        id: "export",
+        label: "Export tasks as JSON",
+        section: "Data",
+        keywords: ["download", "backup"],
+        run: handleExport,
+      },
+    ],
+    [navigate, setTheme],
+  );
+  useRegisterCommands(globalCommands);
+
+  const commands = useCommands();
+
+  // Titles come from the unfiltered list, so a todo can be found whatever filter is showing. The
+  // list only holds the pages scrolled to, so the rest are loaded while the palette is open.
+  const todoList = getTodoList({});
+  const todoCollection = todoList.collection;
+  const { hasMore } = useTodoPagination(todoList);
+  const { data: todos = [] } = useLiveQuery(
+    (q) => (isOpen ? q.from({ todo: todoCollection }) : undefined),
+    [isOpen, todoCollection],
+  );
+
+  useEffect(() => {
+    if (isOpen && hasMore) {
+      todoList.loadAll().catch((err) => {
+        showErrorToast(err, "Could not load all tasks to search.");
+      });
+    }
+  }, [hasMore, isOpen, todoList]);
+
+  const results = useMemo(() => {
+    const trimmedQuery = query.trim();
+
+    const commandResults = commands.flatMap((command) => {
+      const score = fuzzyScore(
+        trimmedQuery,
+        [command.label, command.section, ...(command.keywords ?? [])].join(" "),
+      );
+      return score === null ? [] : [{ id: `command:${command.id}`, command, score }];
+    });
+
+    if (!trimmedQuery) {
+      return commandResults;
+    }
+
+    const todoResults = todos
+      .filter((todo) => !isTemporaryTodoId(todo.id))
+      .flatMap((todo) => {
+        const score = fuzzyScore(trimmedQuery, todo.title);
+        if (score === null) {
+          return [];
+        }
+
+        const command: Command = {
+          id: `todo-${todo.id}`,
+          label: todo.title,
+          section: "Task",
+          run: () => navigate({ to: "/todos/$id", params: { id: String(todo.id) }, search: {} }),
+        };
+        return [{ id: `todo:${todo.id}`, command, score }];
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxTodoResults);
+
+    return [...commandResults, ...todoResults].sort((a, b) => b.score - a.score);
+  }, [commands, navigate, query, todos]);
+
+  const handleOpenChange = (nextOpen?: boolean) => {
+    setIsOpen(Boolean(nextOpen));
+    if (!nextOpen) {
+      setQuery("");
+    }
+  };
+
+  return (
+    <CommandPalette
+      isOpen={isOpen}
+      onOpenChange={handleOpenChange}
+      aria-label="Commands"
+      inputValue={query}
+      onInputChange={setQuery}
+      // Results are already ranked by fuzzy score, so the palette shouldn't filter them again.
+      filter={() => true}
+      items={results}
+      onAction={(key) => {
+        const result = results.find((item) => item.id === key);
+        handleOpenChange(false);
+        // Run once the palette has let go of focus, so commands can move it elsewhere.
+        window.setTimeout(() => void result?.command.run());
+      }}
+    >
+      {(item) => (
+        <MenuItem id={item.id} textValue={item.command.label}>
+          <span className="flex-1 truncate">{item.command.label}</span>
+          <span className="text-xs text-muted">{item.command.section}</span>
+        </MenuItem>
+      )}
+    </CommandPalette>
+  );
+}
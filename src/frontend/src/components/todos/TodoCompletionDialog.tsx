@@ -0,0 +1,65 @@
+import { Heading, Modal, ModalOverlay } from "react-aria-components";
+import { Button } from "@/components/ui/Button";
+import { Dialog } from "@/components/ui/Dialog";
+import type { TodoItem } from "@/db/todos";
+
+/** Whether completing `todo` leaves checklist items open, so the user should be asked first. */
+export const hasOpenChecklistItems = (todo: TodoItem) =>
+  todo.checklistCompletedCount < todo.checklistCount;
+
+export type TodoCompletionDialogProps = {
+  /** The todos being completed that have open checklist items; empty while the dialog is closed. */
+  todos: TodoItem[];
+  /** Called with whether the open checklist items should be completed too. */
+  onComplete: (completeChecklist: boolean) => void;
+  onCancel: () => void;
+};
+
+export function TodoCompletionDialog({ todos, onComplete, onCancel }: TodoCompletionDialogProps) {
+  const openCount = todos.reduce(
+    (count, todo) => count + todo.checklistCount - todo.checklistCompletedCount,
+    0,
+  );
+  const openItems = openCount === 1 ? "1 open item" : `${openCount} open items`;
+
+  return (
+    <ModalOverlay
+      isOpen={todos.length > 0}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) {
+          onCancel();
+        }
+      }}
+      isDismissable
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+    >
+      <Modal className="w-full max-w-md mx-4 rounded-3xl border border-stroke bg-surface-raised shadow-soft">
+        <Dialog role="alertdialog">
+          <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+            Complete the checklist too?
+          </Heading>
+          <p className="mt-2 text-sm text-muted">
+            {todos.length === 1 ? (
+              <>
+                &quot;{todos[0].title}&quot; still has {openItems} on its checklist.
+              </>
+            ) : (
+              `${todos.length} tasks still have ${openItems} on their checklists.`
+            )}
+          </p>
+          <div className="mt-6 flex flex-wrap justify-end gap-2">
+            <Button variant="quiet" onPress={onCancel}>
+              Cancel
+            </Button>
+            <Button variant="secondary" onPress={() => onComplete(false)}>
+              {todos.length === 1 ? "Only this task" : "Only the tasks"}
+            </Button>
+            <Button autoFocus onPress={() => onComplete(true)}>
+              Complete all
+            </Button>
+          </div>
+        </Dialog>
+      </Modal>
+    </ModalOverlay>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { now, toCalendarDate } from "@internationalized/date";
+import { Heading, Modal, ModalOverlay } from "react-aria-components";
+import { Button } from "@/components/ui/Button";
+import { Dialog } from "@/components/ui/Dialog";
+import { Radio, RadioGroup } from "@/components/ui/RadioGroup";
+import { getPriorityLabel, type TodoPriority } from "@/db/todo-priority";
+import { noListKey, useTodoLists } from "@/db/todo-lists";
+import { describeRepeat } from "@/db/todo-repeat";
+import { toRepeatRule, type TodoRepeatValues } from "./TodoRepeatField";
+
+export type TodoEditValues = {
+  title: string;
+  notes: string;
+  dueDate: string;
+  /** `HH:mm` in the user's time zone, or empty for an all-day due. */
+  dueTime: string;
+  tags: string[];
+  priority: TodoPriority;
+  /** The list's id as a string, or `noListKey` when the todo is in none. */
+  listId: string;
+  repeat: TodoRepeatValues;
+  isCompleted: boolean;
+};
+
+/** The three versions of a todo whose save was rejected because someone else changed it first. */
+export type TodoConflict = {
+  original: TodoEditValues;
+  mine: TodoEditValues;
+  theirs: TodoEditValues;
+};
+
+type Side = "mine" | "theirs";
+
+type FieldChoices = Record<keyof TodoEditValues, Side>;
+
+const fields: Array<{ key: keyof TodoEditValues; label: string }> = [
+  { key: "title", label: "Title" },
+  { key: "notes", label: "Notes" },
+  { key: "dueDate", label: "Due date" },
+  { key: "dueTime", label: "Due time" },
+  { key: "tags", label: "Tags" },
+  { key: "priority", label: "Priority" },
+  { key: "listId", label: "List" },
+  { key: "repeat", label: "Repeat" },
+  { key: "isCompleted", label: "Status" },
+];
+
+const formatValue = (
+  values: TodoEditValues,
+  key: keyof TodoEditValues,
+  listNames: ReadonlyMap<string, string>,
+) => {
+  if (key === "isCompleted") {
+    return values.isCompleted ? "Done" : "Open";
+  }
+  if (key === "dueTime" && values.dueDate && !values.dueTime) {
+    return "All day";
+  }
+  if (key === "priority") {
+    return getPriorityLabel(values.priority);
+  }
+  if (key === "listId") {
+    return values.listId === noListKey
+      ? "No list"
+      : (listNames.get(values.listId) ?? "Deleted list");
+  }
+  if (key === "repeat") {
+    // The rule's time zone doesn't change how it reads.
+    const rule = toRepeatRule(values.repeat, "UTC");
+    return rule
+      ? describeRepeat(rule, values.dueDate, toCalendarDate(now("UTC")))
+      : "Doesn't repeat";
+  }
+  if (key === "tags") {
+    return values.tags.map((tag) => `#${tag}`).join(" ") || "(empty)";
+  }
+
+  return values[key] || "(empty)";
+};
+
+// Tags and repeat rules aren't strings, so values are compared by content rather than identity.
+const isSameValue = (a: TodoEditValues, b: TodoEditValues, key: keyof TodoEditValues) =>
+  JSON.stringify(a[key]) === JSON.stringify(b[key]);
+
+const chooseDefault = (conflict: TodoConflict, key: keyof TodoEditValues): Side =>
+  isSameValue(conflict.mine, conflict.original, key) ? "theirs" : "mine";
+
+// Fields only the other person changed keep their change; fields you changed keep yours.
+const getDefaultChoices = (conflict: TodoConflict): FieldChoices => ({
+  title: chooseDefault(conflict, "title"),
+  notes: chooseDefault(conflict, "notes"),
+  dueDate: chooseDefault(conflict, "dueDate"),
+  dueTime: chooseDefault(conflict, "dueTime"),
+  tags: chooseDefault(conflict, "tags"),
+  priority: chooseDefault(conflict, "priority"),
+  listId: chooseDefault(conflict, "listId"),
+  repeat: chooseDefault(conflict, "repeat"),
+  isCompleted: chooseDefault(conflict, "isCompleted"),
+});
+
+const mergeValues = (conflict: TodoConflict, choices: FieldChoices): TodoEditValues => ({
+  title: conflict[choices.title].title,
+  notes: conflict[choices.notes].notes,
+  dueDate: conflict[choices.dueDate].dueDate,
+  dueTime: conflict[choices.dueTime].dueTime,
+  tags: conflict[choices.tags].tags,
+  priority: conflict[choices.priority].priority,
+  listId: conflict[choices.listId].listId,
+  repeat: conflict[choices.repeat].repeat,
+  isCompleted: conflict[choices.isCompleted].isCompleted,
+});
+
+export type TodoConflictDialogProps = {
+  conflict: TodoConflict | null;
+  onResolve: (values: TodoEditValues) => void;
+  onCancel: () => void;
+};
+
+export function TodoConflictDialog({ conflict, onResolve, onCancel }: TodoConflictDialogProps) {
+  return (
+    <ModalOverlay
+      isOpen={conflict !== null}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) {
+          onCancel();
+        }
+      }}
+      isDismissable
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+    >
+      <Modal className="w-full max-w-lg mx-4 rounded-3xl border border-stroke bg-surface-raised shadow-soft">
+        {conflict && <ConflictChoices conflict={conflict} onResolve={onResolve} />}
+      </Modal>
+    </ModalOverlay>
+  );
+}
+
+function ConflictChoices({
+  conflict,
+  onResolve,
+}: {
+  conflict: TodoConflict;
+  onResolve: (values: TodoEditValues) => void;
+}) {
+  const [choices, setChoices] = useState(() => getDefaultChoices(conflict));
+  const { data: todoLists } = useTodoLists();
+  const listNames = new Map(todoLists?.lists.map((list) => [String(list.id), list.name]));
+
+  const conflictingFields = fields.filter(
+    ({ key }) => !isSameValue(conflict.mine, conflict.theirs, key),
+  );
+
+  return (
+    <Dialog>
+      {({ close }) => (
+        <>
+          <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+            This task changed while you were editing
+          </Heading>
+          <p className="mt-2 text-sm text-muted">
+            {conflictingFields.length > 0
+              ? "Pick the version to keep for each field, then save again."
+              : "The other change matches yours, so saving again is safe."}
+          </p>
+          <div className="mt-4 flex flex-col gap-4">
+            {conflictingFields.map(({ key, label }) => (
+              <RadioGroup
+                key={key}
+                label={label}
+                value={choices[key]}
+                onChange={(value) =>
+                  setChoices((current) => ({ ...current, [key]: value as Side }))
+                }
+                description={`Original: ${formatValue(conflict.original, key, listNames)}`}
+              >
+                <Radio value="mine">Yours: {formatValue(conflict.mine, key, listNames)}</Radio>
+                <Radio value="theirs">Theirs: {formatValue(conflict.theirs, key, listNames)}</Radio>
+              </RadioGroup>
+            ))}
+          </div>
+          <div className="mt-6 flex justify-end gap-2">
+            <Button variant="secondary" onPress={close}>
+              Keep editing
+            </Button>
+            <Button autoFocus onPress={() => onResolve(mergeValues(conflict, choices))}>
+              Save merged
+            </Button>
+          </div>
+        </>
+      )}
+    </Dialog>
+  );
+}
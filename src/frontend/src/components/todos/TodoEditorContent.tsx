@@ -1,49 +1,95 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { eq, useLiveQuery } from "@tanstack/react-db";
 import { Button } from "@/components/ui/Button";
 import { useAppForm } from "@/lib/form";
-import { AppCheckbox, AppSubmitButton, AppTextField } from "@/components/form";
-import { todoCollection, type TodoItem } from "@/db/todos";
+import {
+  ApiError,
+  clearServerFieldError,
+  getErrorMessage,
+  setServerFieldErrors,
+} from "@/lib/api-error";
+import {
+  AppCheckbox,
+  AppDatePicker,
+  AppSelect,
+  AppSubmitButton,
+  AppTagField,
+  AppTextField,
+  AppTimeField,
+} from "@/components/form";
+import {
+  TodoConflictError,
+  isTemporaryTodoId,
+  toIfMatch,
+  useTodoTags,
+  type TodoCollection,
+  type TodoItem,
+  type TodoUpdateMetadata,
+} from "@/db/todos";
+import { todoPriorities, type TodoPriority } from "@/db/todo-priority";
+import { fromListKey, noListKey, toListKey, useTodoLists } from "@/db/todo-lists";
+import { formatDue, fromDueFields, getDueStatus, toDueFields, useTimeZone } from "@/lib/due-date";
+import { maxTagsPerTodo, tagMaxLength } from "@/lib/tags";
+import { TodoChecklist } from "./TodoChecklist";
+import { TodoCompletionDialog, hasOpenChecklistItems } from "./TodoCompletionDialog";
+import { TodoConflictDialog, type TodoConflict, type TodoEditValues } from "./TodoConflictDialog";
+import { TodoRepeatField, toRepeatRule, toRepeatValues } from "./TodoRepeatField";
 
 export type TodoEditorContentProps = {
   id: string | number;
+  /** The list collection the todo is loaded from and saved through */
+  collection: TodoCollection;
   onClose?: () => void;
   onSaved?: (todo: TodoItem) => void;
 };
 
-type EditValues = {
-  title: string;
-  notes: string;
-  dueDate: string;
-  isCompleted: boolean;
-};
-
-const dueDateFormatter = new Intl.DateTimeFormat("en-US", {
-  month: "short",
-  day: "numeric",
-});
-
 const detailDateFormatter = new Intl.DateTimeFormat("en-US", {
   month: "short",
   day: "numeric",
   year: "numeric",
 });
 
-const formatDueDate = (value: string) => dueDateFormatter.format(new Date(value));
 const formatDetailDate = (value: string) => detailDateFormatter.format(new Date(value));
 
-function toEditValues(todo: TodoItem): EditValues {
+const priorityOptions = todoPriorities.map((priority) => ({
+  id: priority.key,
+  label: priority.label,
+}));
+
+function toEditValues(todo: TodoItem, timeZone: string): TodoEditValues {
   return {
     title: todo.title,
     notes: todo.notes ?? "",
-    dueDate: todo.dueDate ? todo.dueDate.slice(0, 10) : "",
+    ...toDueFields(todo, timeZone),
+    tags: todo.tags,
+    priority: todo.priority,
+    listId: toListKey(todo.listId),
+    repeat: toRepeatValues(todo.repeat),
     isCompleted: todo.isCompleted,
   };
 }
 
-export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentProps) {
+export function TodoEditorContent({ id, collection, onClose, onSaved }: TodoEditorContentProps) {
   const todoId = useMemo(() => Number(id), [id]);
-  const [saveError, setSaveError] = useState<string | null>(null);
+  const timeZone = useTimeZone();
+  const { data: knownTags = [] } = useTodoTags();
+  const tagSuggestions = useMemo(() => knownTags.map((tag) => tag.name), [knownTags]);
+  const { data: todoLists } = useTodoLists();
+  const listOptions = useMemo(
+    () => [
+      { id: noListKey, label: "No list" },
+      ...(todoLists?.lists ?? []).map((list) => ({ id: String(list.id), label: list.name })),
+    ],
+    [todoLists],
+  );
+  const [saveError, setSaveError] = useState<{ message: string; requestId: string | null } | null>(
+    null,
+  );
+  const [conflict, setConflict] = useState<TodoConflict | null>(null);
+  // Edits held back while the user decides what happens to the open checklist items.
+  const [pendingCompletion, setPendingCompletion] = useState<TodoEditValues | null>(null);
+  // The version the form's edits started from, sent as If-Match so a newer save isn't overwritten.
+  const baseTodoRef = useRef<TodoItem | null>(null);
 
   const {
     data: todo,
@@ -53,34 +99,17 @@ export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentPro
     (q) =>
       Number.isFinite(todoId)
         ? q
-            .from({ todo: todoCollection })
+            .from({ todo: collection })
             .where(({ todo }) => eq(todo.id, todoId))
             .findOne()
         : null,
-    [todoId],
+    [todoId, collection],
   );
 
   const dueStatus = useMemo(() => {
-    if (!todo?.dueDate) {
-      return null;
-    }
-
-    const dueTime = Date.parse(todo.dueDate);
-    if (Number.isNaN(dueTime)) {
-      return null;
-    }
-
-    const startOfToday = new Date();
-    startOfToday.setHours(0, 0, 0, 0);
-    const soonThreshold = new Date(startOfToday);
-    soonThreshold.setDate(soonThreshold.getDate() + 3);
-
-    return {
-      isOverdue: dueTime < startOfToday.getTime(),
-      isDueSoon: dueTime >= startOfToday.getTime() && dueTime <= soonThreshold.getTime(),
-      label: formatDueDate(todo.dueDate),
-    };
-  }, [todo]);
+    const status = todo ? getDueStatus(todo, timeZone) : null;
+    return todo && status ? { ...status, label: formatDue(todo, timeZone) } : null;
+  }, [todo, timeZone]);
 
   const statusChipClass = todo?.isCompleted
     ? "border-stroke bg-surface-strong text-muted"
@@ -91,6 +120,11 @@ export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentPro
       title: "",
       notes: "",
       dueDate: "",
+      dueTime: "",
+      tags: [] as string[],
+      priority: "none" as TodoPriority,
+      listId: noListKey,
+      repeat: toRepeatValues(null),
       isCompleted: false,
     },
     validators: {
@@ -98,45 +132,109 @@ export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentPro
         if (!value.title.trim()) {
           return { fields: { title: "Enter a title before saving." } };
         }
+        if (value.tags.length > maxTagsPerTodo) {
+          return { fields: { tags: `Use at most ${maxTagsPerTodo} tags.` } };
+        }
+        if (value.tags.some((tag) => tag.length > tagMaxLength)) {
+          return { fields: { tags: `Keep tags to ${tagMaxLength} characters or fewer.` } };
+        }
         return undefined;
       },
     },
+    listeners: {
+      onChange: clearServerFieldError,
+    },
     onSubmit: async ({ value }) => {
       if (!Number.isFinite(todoId)) {
         return;
       }
 
-      setSaveError(null);
+      // Completing a todo with open checklist items asks about them before saving.
+      if (value.isCompleted && todo && !todo.isCompleted && hasOpenChecklistItems(todo)) {
+        setPendingCompletion(value);
+        return;
+      }
 
-      try {
-        await todoCollection.update(todoId, (draft) => {
-          draft.title = value.title.trim();
-          draft.notes = value.notes.trim();
+      await saveTodo(value, false);
+    },
+  });
 
-          const dueDate = value.dueDate.trim();
-          draft.dueDate = dueDate ? new Date(dueDate).toISOString() : null;
+  const saveTodo = async (value: TodoEditValues, completeChecklist: boolean) => {
+    setSaveError(null);
 
-          draft.isCompleted = value.isCompleted;
-          draft.updatedAt = new Date().toISOString();
-        });
+    const baseTodo = baseTodoRef.current ?? todo;
+    // Failures show in the form, so skip the list's rollback toast.
+    const metadata: TodoUpdateMetadata = {
+      notifyOnRollback: false,
+      completeChecklist,
+      ...(baseTodo && !isTemporaryTodoId(baseTodo.id) ? { ifMatch: toIfMatch(baseTodo) } : {}),
+    };
+
+    try {
+      const transaction = collection.update(todoId, { metadata }, (draft) => {
+        draft.title = value.title.trim();
+        draft.notes = value.notes.trim();
+
+        const due = fromDueFields(value.dueDate, value.dueTime, timeZone);
+        draft.dueDate = due.dueDate;
+        draft.isAllDay = due.isAllDay;
+        draft.tags = value.tags;
+        draft.priority = value.priority;
+        draft.listId = fromListKey(value.listId);
+        // Only a changed rule is sent, so saving doesn't move it to the current time zone setting.
+        if (JSON.stringify(value.repeat) !== JSON.stringify(toRepeatValues(draft.repeat))) {
+          draft.repeat = toRepeatRule(value.repeat, timeZone);
+        }
 
-        if (onSaved && todo) {
-          onSaved(todo);
+        draft.isCompleted = value.isCompleted;
+        if (completeChecklist) {
+          draft.checklistCompletedCount = draft.checklistCount;
         }
-        onClose?.();
-      } catch (err) {
-        setSaveError(err instanceof Error ? err.message : "Could not save this todo.");
+        draft.updatedAt = new Date().toISOString();
+      });
+
+      await transaction.isPersisted.promise;
+
+      if (onSaved && todo) {
+        onSaved(todo);
+      }
+      onClose?.();
+    } catch (err) {
+      if (err instanceof TodoConflictError && baseTodo) {
+        setConflict({
+          original: toEditValues(baseTodo, timeZone),
+          mine: value,
+          theirs: toEditValues(err.current, timeZone),
+        });
+        baseTodoRef.current = err.current;
+        return;
+      }
+
+      if (setServerFieldErrors(editForm, err)) {
+        return;
       }
-    },
-  });
+
+      setSaveError({
+        message: getErrorMessage(err, "Could not save this todo."),
+        requestId: err instanceof ApiError ? err.requestId : null,
+      });
+    }
+  };
 
   useEffect(() => {
     if (!todo) {
       return;
     }
 
-    editForm.reset(toEditValues(todo));
-  }, [editForm, todo]);
+    // Follow changes made elsewhere until the user starts editing, then keep the version the
+    // edits are based on so saving can tell whether someone else changed the todo meanwhile.
+    if (baseTodoRef.current?.id === todo.id && editForm.state.isDirty) {
+      return;
+    }
+
+    baseTodoRef.current = todo;
+    editForm.reset(toEditValues(todo, timeZone));
+  }, [editForm, timeZone, todo]);
 
   if (!Number.isFinite(todoId)) {
     return (
@@ -227,7 +325,12 @@ export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentPro
             role="alert"
             aria-live="assertive"
           >
-            {saveError}
+            {saveError.message}
+            {saveError.requestId && (
+              <span className="mt-1 block text-[0.65rem] opacity-80">
+                Request ID: {saveError.requestId}
+              </span>
+            )}
           </div>
         )}
 
@@ -280,19 +383,49 @@ export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentPro
           )}
         />
 
+        <editForm.AppField
+          name="tags"
+          children={() => (
+            <AppTagField
+              label="Tags"
+              placeholder="Add a tag"
+              description="Press Enter or type a comma to add"
+              suggestions={tagSuggestions}
+            />
+          )}
+        />
+
         <div className="grid grid-cols-2 gap-3 sm:flex sm:flex-wrap sm:items-end">
           <editForm.AppField
             name="dueDate"
+            children={() => <AppDatePicker label="Due date" className="col-span-1" />}
+          />
+          <editForm.AppField
+            name="dueTime"
+            children={() => (
+              <AppTimeField
+                label="Due time"
+                description="Leave empty for all day"
+                className="col-span-1"
+              />
+            )}
+          />
+          <editForm.AppField
+            name="priority"
             children={() => (
-              <AppTextField
-                label="Due date"
-                optionalLabel="optional"
-                aria-label="Due date"
-                type="date"
+              <AppSelect
+                label="Priority"
+                options={priorityOptions}
                 className="col-span-1"
               />
             )}
           />
+          <editForm.AppField
+            name="listId"
+            children={() => (
+              <AppSelect label="List" options={listOptions} className="col-span-1" />
+            )}
+          />
           <div className="col-span-1 flex items-end pb-1.5">
             <editForm.AppField
               name="isCompleted"
@@ -301,10 +434,39 @@ export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentPro
           </div>
         </div>
 
+        <editForm.Subscribe
+          selector={(state) => [state.values.dueDate, state.values.dueTime] as const}
+        >
+          {([dueDate, dueTime]) => (
+            <editForm.AppField
+              name="repeat"
+              children={(field) => (
+                <TodoRepeatField
+                  value={field.state.value}
+                  onChange={field.handleChange}
+                  dueDate={dueDate}
+                  dueTime={dueTime}
+                  timeZone={timeZone}
+                  errorMessage={
+                    field.state.meta.errors.length > 0
+                      ? field.state.meta.errors.join(", ")
+                      : undefined
+                  }
+                />
+              )}
+            />
+          )}
+        </editForm.Subscribe>
+
+        {!isTemporaryTodoId(todo.id) && <TodoChecklist todoId={todo.id} />}
+
         <div className="flex items-center gap-2 pt-3 border-t border-stroke/50">
           <Button
             variant="secondary"
-            onPress={() => editForm.reset(toEditValues(todo))}
+            onPress={() => {
+              baseTodoRef.current = todo;
+              editForm.reset(toEditValues(todo, timeZone));
+            }}
             className="h-9 rounded-lg px-3 text-[0.6rem] font-medium uppercase tracking-[0.2em]"
           >
             Reset
@@ -324,6 +486,28 @@ export function TodoEditorContent({ id, onClose, onSaved }: TodoEditorContentPro
           </editForm.AppForm>
         </div>
       </form>
+
+      <TodoConflictDialog
+        conflict={conflict}
+        onCancel={() => setConflict(null)}
+        onResolve={(values) => {
+          setConflict(null);
+          editForm.reset(values);
+          void editForm.handleSubmit();
+        }}
+      />
+
+      <TodoCompletionDialog
+        todos={pendingCompletion && todo ? [todo] : []}
+        onCancel={() => setPendingCompletion(null)}
+        onComplete={(completeChecklist) => {
+          const values = pendingCompletion;
+          setPendingCompletion(null);
+          if (values) {
+            void saveTodo(values, completeChecklist);
+          }
+        }}
+      />
     </div>
   );
 }
@@ -1,16 +1,25 @@
 import { useNavigate } from "@tanstack/react-router";
 import { Dialog, Modal, ModalOverlay } from "react-aria-components";
+import type { TodoCollection } from "@/db/todos";
 import { TodoEditorContent } from "./TodoEditorContent";
 
 export type TodoEditorModalProps = {
   id: string | number;
+  collection: TodoCollection;
+  /** The list the editor was opened from, which closing returns to. */
+  listId?: string;
 };
 
-export function TodoEditorModal({ id }: TodoEditorModalProps) {
+export function TodoEditorModal({ id, collection, listId }: TodoEditorModalProps) {
   const navigate = useNavigate();
 
   const handleClose = () => {
-    navigate({ to: "/" });
+    // Keep the list filters from the deep link, e.g. /todos/5?status=open closes to /?status=open.
+    if (listId !== undefined) {
+      navigate({ to: "/lists/$listId", params: { listId }, search: true });
+    } else {
+      navigate({ to: "/", search: true });
+    }
   };
 
   return (
@@ -29,7 +38,7 @@ export function TodoEditorModal({ id }: TodoEditorModalProps) {
           aria-labelledby="todo-editor-title"
           className="rounded-3xl border border-stroke bg-surface-raised p-6 shadow-soft outline-none app-rise"
         >
-          <TodoEditorContent id={id} onClose={handleClose} />
+          <TodoEditorContent id={id} collection={collection} onClose={handleClose} />
         </Dialog>
       </Modal>
     </ModalOverlay>
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { Link, useNavigate } from "@tanstack/react-router";
+import { PencilIcon, PlusIcon } from "lucide-react";
+import { Form, Heading, Modal, ModalOverlay } from "react-aria-components";
+import { Button } from "@/components/ui/Button";
+import { ColorSwatchPicker, ColorSwatchPickerItem } from "@/components/ui/ColorSwatchPicker";
+import { Dialog } from "@/components/ui/Dialog";
+import { TextField } from "@/components/ui/TextField";
+import { queue as toastQueue } from "@/components/ui/Toast";
+import {
+  createTodoList,
+  deleteTodoList,
+  todoListColors,
+  updateTodoList,
+  useTodoLists,
+  type TodoListEntry,
+} from "@/db/todo-lists";
+import { ApiError, showErrorToast } from "@/lib/api-error";
+
+// Matches the server's limit for list names.
+const listNameMaxLength = 60;
+
+const linkClass =
+  "flex min-h-9 shrink-0 items-center gap-2 rounded-lg px-3 text-sm text-muted transition-colors hover:bg-surface-strong/60 hover:text-ink";
+const activeLinkClass = "bg-surface-strong/70 font-medium text-ink";
+
+export type TodoListsSidebarProps = {
+  /** The list being viewed, or undefined for all tasks. */
+  activeListId?: number;
+};
+
+/**
+ * Navigation between all tasks and the user's lists, with their open counts. Lists are created,
+ * renamed, recolored and deleted from here. Sits beside the tasks on wide screens and above them
+ * as a scrolling row on small ones.
+ */
+export function TodoListsSidebar({ activeListId }: TodoListsSidebarProps) {
+  const { data, isError } = useTodoLists();
+  // `null` creates a list; an entry edits it.
+  const [editing, setEditing] = useState<TodoListEntry | null | undefined>(undefined);
+  const lists = data?.lists ?? [];
+  const activeList = lists.find((list) => list.id === activeListId);
+
+  return (
+    <nav
+      aria-label="Lists"
+      className="flex shrink-0 flex-col gap-2 px-4 pt-4 md:sticky md:top-0 md:w-56 md:px-0 md:py-8"
+    >
+      <div className="flex items-center justify-between gap-2 md:px-3">
+        <h2 className="text-[0.7rem] font-medium uppercase tracking-wide text-muted/70">Lists</h2>
+        <div className="flex items-center gap-0.5">
+          {activeList && (
+            <Button
+              variant="quiet"
+              onPress={() => setEditing(activeList)}
+              aria-label={`Edit ${activeList.name}`}
+              className="h-7 w-7 rounded-md text-muted/60 hover:text-ink"
+            >
+              <PencilIcon aria-hidden className="h-3.5 w-3.5" />
+            </Button>
+          )}
+          <Button
+            variant="quiet"
+            onPress={() => setEditing(null)}
+            aria-label="New list"
+            className="h-7 w-7 rounded-md text-muted/60 hover:text-ink"
+          >
+            <PlusIcon aria-hidden className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ul className="-mx-1 flex gap-1 overflow-x-auto px-1 pb-1 md:mx-0 md:flex-col md:overflow-visible md:px-0">
+        <li>
+          <Link
+            to="/"
+            search={true}
+            className={linkClass}
+            activeProps={{ className: activeLinkClass }}
+            activeOptions={{ exact: true, includeSearch: false }}
+          >
+            <span className="flex-1 truncate">All tasks</span>
+            {data && <span className="text-xs tabular-nums text-muted/70">{data.openCount}</span>}
+          </Link>
+        </li>
+        {lists.map((list) => (
+          <li key={list.id}>
+            <Link
+              to="/lists/$listId"
+              params={{ listId: String(list.id) }}
+              search={true}
+              className={linkClass}
+              activeProps={{ className: activeLinkClass }}
+              activeOptions={{ includeSearch: false }}
+            >
+              <span
+                aria-hidden
+                className="h-2.5 w-2.5 shrink-0 rounded-full"
+                style={{ backgroundColor: list.color }}
+              />
+              <span className="max-w-40 flex-1 truncate">{list.name}</span>
+              <span className="text-xs tabular-nums text-muted/70">{list.openCount}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+
+      {isError && (
+        <p className="text-xs text-[color:var(--danger)] md:px-3">Could not load lists.</p>
+      )}
+
+      <TodoListDialog
+        list={editing}
+        isActive={editing != null && editing.id === activeListId}
+        onClose={() => setEditing(undefined)}
+      />
+    </nav>
+  );
+}
+
+type TodoListDialogProps = {
+  /** The list to edit, `null` to create one, or undefined while the dialog is closed. */
+  list: TodoListEntry | null | undefined;
+  /** Whether the list is the one being viewed, so deleting it has to leave the page. */
+  isActive: boolean;
+  onClose: () => void;
+};
+
+function TodoListDialog({ list, isActive, onClose }: TodoListDialogProps) {
+  return (
+    <ModalOverlay
+      isOpen={list !== undefined}
+      onOpenChange={(isOpen) => {
+        if (!isOpen) {
+          onClose();
+        }
+      }}
+      isDismissable
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+    >
+      <Modal className="w-full max-w-md mx-4 rounded-3xl border border-stroke bg-surface-raised shadow-soft">
+        {list !== undefined && (
+          <TodoListForm key={list?.id ?? "new"} list={list} isActive={isActive} onClose={onClose} />
+        )}
+      </Modal>
+    </ModalOverlay>
+  );
+}
+
+function TodoListForm({
+  list,
+  isActive,
+  onClose,
+}: Omit<TodoListDialogProps, "list"> & {
+  list: TodoListEntry | null;
+}) {
+  const navigate = useNavigate();
+  const [name, setName] = useState(list?.name ?? "");
+  const [color, setColor] = useState(list?.color ?? todoListColors[0]);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setNameError("Enter a name for the list.");
+      return;
+    }
+
+    setPending(true);
+
+    try {
+      const changes = { name: trimmed, color };
+      if (list) {
+        await updateTodoList(list.id, changes);
+      } else {
+        const created = await createTodoList(changes);
+        navigate({ to: "/lists/$listId", params: { listId: String(created.id) }, search: true });
+      }
+      onClose();
+    } catch (err) {
+      const fieldError = err instanceof ApiError ? err.fieldErrors.name?.[0] : undefined;
+      if (fieldError) {
+        setNameError(fieldError);
+      } else {
+        showErrorToast(err, "Could not save this list.");
+      }
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!list) {
+      return;
+    }
+
+    setPending(true);
+
+    try {
+      await deleteTodoList(list.id);
+      if (isActive) {
+        navigate({ to: "/", search: true });
+      }
+      toastQueue.add({ title: `Deleted "${list.name}"`, description: "Its tasks were kept." });
+      onClose();
+    } catch (err) {
+      showErrorToast(err, "Could not delete this list.");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Dialog>
+      <Form
+        onSubmit={(event) => {
+          event.preventDefault();
+          void handleSave();
+        }}
+        className="flex flex-col gap-4"
+      >
+        <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+          {list ? "Edit list" : "New list"}
+        </Heading>
+        <TextField
+          label="Name"
+          value={name}
+          onChange={(value) => {
+            setName(value);
+            setNameError(null);
+          }}
+          maxLength={listNameMaxLength}
+          isInvalid={nameError !== null}
+          errorMessage={nameError ?? undefined}
+          autoFocus
+        />
+        <ColorSwatchPicker
+          aria-label="Color"
+          value={color}
+          onChange={(value) => setColor(value.toString("hex").toLowerCase())}
+        >
+          {todoListColors.map((swatch) => (
+            <ColorSwatchPickerItem key={swatch} color={swatch} />
+          ))}
+        </ColorSwatchPicker>
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          {list && (
+            <Button
+              variant="destructive"
+              onPress={() => void handleDelete()}
+              isDisabled={pending}
+              className="mr-auto"
+            >
+              Delete list
+            </Button>
+          )}
+          <Button variant="quiet" onPress={onClose} className={list ? "" : "ml-auto"}>
+            Cancel
+          </Button>
+          <Button type="submit" isDisabled={pending}>
+            {list ? "Save" : "Create list"}
+          </Button>
+        </div>
+      </Form>
+    </Dialog>
+  );
+}
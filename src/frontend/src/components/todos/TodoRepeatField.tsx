@@ -0,0 +1,161 @@
+import { now, toCalendarDate } from "@internationalized/date";
+import { NumberField } from "@/components/ui/NumberField";
+import { Select, SelectItem } from "@/components/ui/Select";
+import { ToggleButton } from "@/components/ui/ToggleButton";
+import { ToggleButtonGroup } from "@/components/ui/ToggleButtonGroup";
+import {
+  describeRepeat,
+  getNextDue,
+  maxRepeatInterval,
+  todoRepeatFrequencies,
+  weekdays,
+  type DayOfWeek,
+  type TodoRepeatFrequency,
+  type TodoRepeatRule,
+} from "@/db/todo-repeat";
+import { formatDue, fromDueFields } from "@/lib/due-date";
+
+const noRepeatKey = "none";
+
+/** The editor's form value for a repeat rule; the rule's time zone comes from the app setting. */
+export type TodoRepeatValues = {
+  frequency: TodoRepeatFrequency | typeof noRepeatKey;
+  interval: number;
+  weekdays: DayOfWeek[];
+};
+
+const frequencyOptions = [
+  { id: noRepeatKey, label: "Does not repeat" },
+  ...todoRepeatFrequencies.map((frequency) => ({ id: frequency.key, label: frequency.label })),
+];
+
+const intervalUnits: Record<TodoRepeatFrequency, string> = {
+  daily: "days",
+  weekly: "weeks",
+  monthlyByDate: "months",
+  monthlyByWeekday: "months",
+  afterCompletion: "days",
+};
+
+export const toRepeatValues = (rule: TodoRepeatRule | null): TodoRepeatValues => ({
+  frequency: rule?.frequency ?? noRepeatKey,
+  interval: rule?.interval ?? 1,
+  // Only weekly rules pick days, kept in week order so unchanged rules compare equal.
+  weekdays:
+    rule?.frequency === "weekly"
+      ? weekdays.filter((day) => rule.weekdays?.includes(day.key)).map((day) => day.key)
+      : [],
+});
+
+export const toRepeatRule = (values: TodoRepeatValues, timeZone: string): TodoRepeatRule | null =>
+  values.frequency === noRepeatKey
+    ? null
+    : {
+        frequency: values.frequency,
+        interval: values.interval,
+        weekdays: values.frequency === "weekly" ? values.weekdays : [],
+        timeZone,
+      };
+
+export type TodoRepeatFieldProps = {
+  value: TodoRepeatValues;
+  onChange: (value: TodoRepeatValues) => void;
+  /** The form's due date and time, which calendar repeats count from. */
+  dueDate: string;
+  dueTime: string;
+  timeZone: string;
+  errorMessage?: string;
+  className?: string;
+};
+
+/**
+ * Picks how a todo repeats, and previews when the next one would be due if the todo were completed
+ * now. Weekly rules choose their days; without any they repeat on the due date's weekday.
+ */
+export function TodoRepeatField({
+  value,
+  onChange,
+  dueDate,
+  dueTime,
+  timeZone,
+  errorMessage,
+  className,
+}: TodoRepeatFieldProps) {
+  const rule = toRepeatRule(value, timeZone);
+  let summary: string | null = null;
+
+  if (rule) {
+    const nextDue = getNextDue({ ...fromDueFields(dueDate, dueTime, timeZone), repeat: rule });
+    const description = describeRepeat(rule, dueDate, toCalendarDate(now(timeZone)));
+    summary = nextDue
+      ? `${description}. Next after this: ${formatDue(nextDue, timeZone)}`
+      : description;
+  }
+
+  return (
+    <div className={`flex flex-col gap-2 ${className ?? ""}`}>
+      <div className="flex flex-wrap items-end gap-3">
+        <Select
+          label="Repeat"
+          selectedKey={value.frequency}
+          onSelectionChange={(key) => {
+            if (typeof key === "string") {
+              onChange({ ...value, frequency: key as TodoRepeatValues["frequency"] });
+            }
+          }}
+          items={frequencyOptions}
+          isInvalid={errorMessage !== undefined}
+          errorMessage={errorMessage}
+          className="min-w-48 flex-1"
+        >
+          {(option) => <SelectItem id={option.id}>{option.label}</SelectItem>}
+        </Select>
+        {value.frequency !== noRepeatKey && (
+          <NumberField
+            label={
+              value.frequency === "afterCompletion"
+                ? "Days"
+                : `Every (${intervalUnits[value.frequency]})`
+            }
+            value={value.interval}
+            onChange={(interval) =>
+              onChange({ ...value, interval: Number.isNaN(interval) ? 1 : interval })
+            }
+            minValue={1}
+            maxValue={maxRepeatInterval}
+            step={1}
+            className="w-32"
+          />
+        )}
+      </div>
+
+      {value.frequency === "weekly" && (
+        <ToggleButtonGroup
+          aria-label="Repeat on"
+          selectionMode="multiple"
+          selectedKeys={value.weekdays}
+          onSelectionChange={(keys) =>
+            onChange({
+              ...value,
+              weekdays: weekdays.filter((day) => keys.has(day.key)).map((day) => day.key),
+            })
+          }
+          className="flex-wrap"
+        >
+          {weekdays.map((day) => (
+            <ToggleButton
+              key={day.key}
+              id={day.key}
+              aria-label={day.name}
+              className="min-w-11 px-2"
+            >
+              {day.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      )}
+
+      {summary && <p className="text-xs text-muted">{summary}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Heading, Modal, ModalOverlay } from "react-aria-components";
+import { Button } from "@/components/ui/Button";
+import { Dialog } from "@/components/ui/Dialog";
+import {
+  isBindableKey,
+  rebindShortcut,
+  resetShortcuts,
+  shortcutActions,
+  useShortcutBindings,
+  type ShortcutAction,
+} from "@/lib/shortcuts";
+
+export type TodoShortcutsDialogProps = {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+};
+
+export function TodoShortcutsDialog({ isOpen, onOpenChange }: TodoShortcutsDialogProps) {
+  return (
+    <ModalOverlay
+      isOpen={isOpen}
+      onOpenChange={onOpenChange}
+      isDismissable
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+    >
+      <Modal className="w-full max-w-md mx-4 rounded-3xl border border-stroke bg-surface-raised shadow-soft">
+        <ShortcutList />
+      </Modal>
+    </ModalOverlay>
+  );
+}
+
+function ShortcutList() {
+  const bindings = useShortcutBindings();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+
+  useEffect(() => {
+    if (!recording) {
+      return;
+    }
+
+    // Listen before the dialog does, so Escape cancels the recording instead of closing it.
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Shift") {
+        return;
+      }
+
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (
+        event.key !== "Escape" &&
+        !event.ctrlKey &&
+        !event.metaKey &&
+        !event.altKey &&
+        isBindableKey(event.key)
+      ) {
+        rebindShortcut(recording, event.key);
+      }
+
+      setRecording(null);
+    };
+
+    document.addEventListener("keydown", handleKeyDown, true);
+    return () => document.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording]);
+
+  return (
+    <Dialog>
+      {({ close }) => (
+        <>
+          <Heading slot="title" className="text-xl font-semibold leading-6 my-0">
+            Keyboard shortcuts
+          </Heading>
+          <p className="mt-2 text-sm text-muted">
+            Choose a shortcut to change it, then press the new key. Press Escape to cancel.
+          </p>
+          <ul className="mt-4 flex flex-col divide-y divide-stroke/40">
+            {shortcutActions.map(({ action, label }) => (
+              <li key={action} className="flex items-center justify-between gap-4 py-2">
+                <span className="text-sm text-ink">{label}</span>
+                <Button
+                  variant="secondary"
+                  aria-label={`Change shortcut for ${label}`}
+                  onPress={() => setRecording(action)}
+                  className="min-w-16 font-mono text-xs"
+                >
+                  {recording === action ? "Press a key…" : bindings[action]}
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-6 flex justify-end gap-2">
+            <Button variant="secondary" onPress={resetShortcuts}>
+              Reset to defaults
+            </Button>
+            <Button autoFocus onPress={close}>
+              Done
+            </Button>
+          </div>
+        </>
+      )}
+    </Dialog>
+  );
+}
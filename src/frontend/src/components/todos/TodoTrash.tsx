@@ -0,0 +1,277 @@
+import { useMemo, useState } from "react";
+import { useLiveQuery } from "@tanstack/react-db";
+import { useNavigate } from "@tanstack/react-router";
+import { ArrowLeftIcon, RotateCcwIcon, Trash2Icon, XIcon } from "lucide-react";
+import { Modal, ModalOverlay, type Selection } from "react-aria-components";
+import { AlertDialog } from "@/components/ui/AlertDialog";
+import { Button } from "@/components/ui/Button";
+import { GridList, GridListItem } from "@/components/ui/GridList";
+import { queue as toastQueue } from "@/components/ui/Toast";
+import { Toolbar } from "@/components/ui/Toolbar";
+import { emptyTrash, restoreTodos, trashCollection } from "@/db/todos";
+import { showErrorToast } from "@/lib/api-error";
+import { useRegisterCommands, type Command } from "@/lib/commands";
+
+type PurgeTarget = { kind: "selected"; ids: number[] } | { kind: "all" };
+
+const deletedDateFormatter = new Intl.DateTimeFormat("en-US", {
+  month: "short",
+  day: "numeric",
+});
+
+const formatDeletedDate = (value: string) => deletedDateFormatter.format(new Date(value));
+
+const pluralize = (count: number) => (count === 1 ? "1 task" : `${count} tasks`);
+
+const actionClass = "h-8 rounded-md px-2.5 text-xs font-medium";
+
+export function TodoTrash() {
+  const navigate = useNavigate();
+  const [selectedKeys, setSelectedKeys] = useState<Selection>(() => new Set());
+  const [purgeTarget, setPurgeTarget] = useState<PurgeTarget | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const {
+    data: deletedTodos = [],
+    isLoading,
+    isError,
+  } = useLiveQuery((q) =>
+    q.from({ todo: trashCollection }).orderBy(({ todo }) => todo.deletedAt, "desc"),
+  );
+
+  const selectedIds = useMemo(
+    () =>
+      deletedTodos
+        .filter((todo) => selectedKeys === "all" || selectedKeys.has(todo.id))
+        .map((todo) => todo.id),
+    [deletedTodos, selectedKeys],
+  );
+
+  const hasDeletedTodos = deletedTodos.length > 0;
+  const trashCommands = useMemo<Command[]>(
+    () =>
+      hasDeletedTodos
+        ? [
+            {
+              id: "empty-trash",
+              label: "Empty trash",
+              section: "Trash",
+              keywords: ["purge", "delete"],
+              run: () => setPurgeTarget({ kind: "all" }),
+            },
+          ]
+        : [],
+    [hasDeletedTodos],
+  );
+  useRegisterCommands(trashCommands);
+
+  const handleRestore = async (ids: number[]) => {
+    setPending(true);
+
+    try {
+      await restoreTodos(ids);
+      setSelectedKeys(new Set());
+      toastQueue.add({ title: `Restored ${pluralize(ids.length)}` });
+    } catch (err) {
+      showErrorToast(err, "Could not restore these todos.");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const handlePurge = async (target: PurgeTarget) => {
+    setPending(true);
+
+    try {
+      if (target.kind === "all") {
+        const purged = await emptyTrash();
+        toastQueue.add({ title: `Permanently deleted ${pluralize(purged)}` });
+      } else {
+        const transaction = trashCollection.delete(target.ids);
+        await transaction.isPersisted.promise;
+        toastQueue.add({ title: `Permanently deleted ${pluralize(target.ids.length)}` });
+      }
+
+      setSelectedKeys(new Set());
+    } catch (err) {
+      showErrorToast(err, "Could not delete these todos.");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="app-shell">
+      <div className="mx-auto flex w-full max-w-2xl flex-col gap-4 px-4 py-4 sm:gap-5 sm:px-8 sm:py-8">
+        <header className="flex items-center justify-between gap-3 app-rise">
+          <div className="flex items-center gap-2">
+            <Button
+              variant="quiet"
+              onPress={() => navigate({ to: "/" })}
+              aria-label="Back to tasks"
+              className="h-8 w-8 rounded-md"
+            >
+              <ArrowLeftIcon aria-hidden className="h-4 w-4" />
+            </Button>
+            <div className="flex flex-col">
+              <h1 className="font-display text-2xl font-semibold tracking-tight text-ink sm:text-3xl">
+                Trash
+              </h1>
+              <span className="text-[0.7rem] text-muted/70 tracking-wide uppercase">
+                {pluralize(deletedTodos.length)}
+              </span>
+            </div>
+          </div>
+          <Button
+            variant="secondary"
+            isDisabled={pending || deletedTodos.length === 0}
+            onPress={() => setPurgeTarget({ kind: "all" })}
+            className={actionClass}
+          >
+            <Trash2Icon aria-hidden className="h-3.5 w-3.5" />
+            Empty trash
+          </Button>
+        </header>
+
+        <main className="flex flex-col gap-3">
+          {selectedIds.length > 0 && (
+            <Toolbar
+              aria-label="Trash actions"
+              className="items-center gap-1 rounded-lg border border-[color:var(--accent-border)] bg-[color:var(--accent-soft)] px-2 py-1 app-rise"
+            >
+              <span
+                className="px-1.5 text-xs font-semibold text-ink tabular-nums"
+                aria-live="polite"
+              >
+                {selectedIds.length} selected
+              </span>
+              <div className="flex-1" />
+              <Button
+                variant="quiet"
+                isDisabled={pending}
+                onPress={() => handleRestore(selectedIds)}
+                className={actionClass}
+              >
+                <RotateCcwIcon aria-hidden className="h-3.5 w-3.5" />
+                Restore
+              </Button>
+              <Button
+                variant="quiet"
+                isDisabled={pending}
+                onPress={() => setPurgeTarget({ kind: "selected", ids: selectedIds })}
+                className={`${actionClass} hover:text-[color:var(--danger)]`}
+              >
+                <Trash2Icon aria-hidden className="h-3.5 w-3.5" />
+                Delete forever
+              </Button>
+              <Button
+                variant="quiet"
+                onPress={() => setSelectedKeys(new Set())}
+                aria-label="Clear selection"
+                className="h-8 w-8 rounded-md"
+              >
+                <XIcon aria-hidden className="h-3.5 w-3.5" />
+              </Button>
+            </Toolbar>
+          )}
+
+          {isError && (
+            <div
+              className="rounded-md border border-[color:var(--danger-border)] bg-[color:var(--danger-soft)] px-2.5 py-1.5 text-[0.7rem] text-[color:var(--danger)]"
+              role="alert"
+            >
+              Could not load the trash.
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 rounded-xl border border-dashed border-stroke/50 bg-surface-strong/30 px-4 py-10 text-center">
+              <div className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--accent)] border-t-transparent" />
+              <span className="text-sm text-muted">Loading...</span>
+            </div>
+          ) : deletedTodos.length === 0 ? (
+            <div className="flex flex-col items-center gap-1 py-12 text-center">
+              <p className="text-sm font-medium text-muted">Trash is empty</p>
+              <p className="text-xs text-muted/60">Deleted tasks show up here</p>
+            </div>
+          ) : (
+            <GridList
+              aria-label="Deleted todos"
+              selectionMode="multiple"
+              selectionBehavior="replace"
+              selectedKeys={selectedKeys}
+              onSelectionChange={setSelectedKeys}
+              className="w-full border-transparent bg-transparent shadow-none todo-gridlist"
+            >
+              {deletedTodos.map((todo) => (
+                <GridListItem id={todo.id} key={todo.id} textValue={todo.title}>
+                  <div className="group flex w-full items-center gap-3 py-2.5 px-2 -mx-2 rounded-lg">
+                    <span
+                      className={`min-w-0 flex-1 truncate text-[0.875rem] leading-snug ${
+                        todo.isCompleted ? "text-muted/50 line-through" : "text-ink"
+                      }`}
+                    >
+                      {todo.title}
+                    </span>
+                    {todo.deletedAt && (
+                      <span className="text-xs tabular-nums text-muted/60">
+                        Deleted {formatDeletedDate(todo.deletedAt)}
+                      </span>
+                    )}
+                    <div className="flex shrink-0 items-center gap-0.5">
+                      <Button
+                        variant="quiet"
+                        isDisabled={pending}
+                        onPress={() => handleRestore([todo.id])}
+                        aria-label="Restore"
+                        className="h-8 w-8 rounded"
+                      >
+                        <RotateCcwIcon aria-hidden className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="quiet"
+                        isDisabled={pending}
+                        onPress={() => setPurgeTarget({ kind: "selected", ids: [todo.id] })}
+                        aria-label="Delete forever"
+                        className="h-8 w-8 rounded hover:text-[color:var(--danger)]"
+                      >
+                        <Trash2Icon aria-hidden className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                </GridListItem>
+              ))}
+            </GridList>
+          )}
+        </main>
+      </div>
+
+      <ModalOverlay
+        isOpen={purgeTarget !== null}
+        onOpenChange={(isOpen) => {
+          if (!isOpen) {
+            setPurgeTarget(null);
+          }
+        }}
+        isDismissable
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      >
+        <Modal className="w-full max-w-md mx-4 rounded-3xl border border-stroke bg-surface-raised shadow-soft">
+          {purgeTarget && (
+            <AlertDialog
+              title={purgeTarget.kind === "all" ? "Empty trash?" : "Delete forever?"}
+              variant="destructive"
+              actionLabel={purgeTarget.kind === "all" ? "Empty trash" : "Delete forever"}
+              onAction={() => handlePurge(purgeTarget)}
+            >
+              {purgeTarget.kind === "all"
+                ? `All ${pluralize(deletedTodos.length)} in the trash will be permanently deleted.`
+                : `${pluralize(purgeTarget.ids.length)} will be permanently deleted.`}{" "}
+              This can't be undone.
+            </AlertDialog>
+          )}
+        </Modal>
+      </ModalOverlay>
+    </div>
+  );
+}
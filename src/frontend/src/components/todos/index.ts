@@ -1,2 +1,10 @@
 export { TodoEditorContent } from "./TodoEditorContent";
 export { TodoEditorModal } from "./TodoEditorModal";
+export { TodoBulkActions } from "./TodoBulkActions";
+export { TodoTrash } from "./TodoTrash";
+export { TodoShortcutsDialog } from "./TodoShortcutsDialog";
+export { TodoCommandPalette } from "./TodoCommandPalette";
+export { TodoChecklist } from "./TodoChecklist";
+export { TodoCompletionDialog, hasOpenChecklistItems } from "./TodoCompletionDialog";
+export { TodoListsSidebar } from "./TodoListsSidebar";
+export { TodoRepeatField, toRepeatRule, toRepeatValues } from "./TodoRepeatField";
@@ -2,10 +2,16 @@
 import {
   GridList as AriaGridList,
   GridListItem as AriaGridListItem,
+  GridListLoadMoreItem as AriaGridListLoadMoreItem,
   Button,
   composeRenderProps,
 } from "react-aria-components";
-import type { GridListItemProps, GridListProps } from "react-aria-components";
+import type {
+  GridListItemProps,
+  GridListLoadMoreItemProps,
+  GridListProps,
+} from "react-aria-components";
+import { twMerge } from "tailwind-merge";
 import { tv } from "tailwind-variants";
 import { Checkbox } from "@/components/ui/Checkbox";
 import { composeTailwindRenderProps, focusRing } from "@/lib/react-aria-utils";
@@ -60,3 +66,16 @@ export function GridListItem({ children, ...props }: GridListItemProps) {
     </AriaGridListItem>
   );
 }
+
+export function GridListLoadMoreItem({ children, ...props }: GridListLoadMoreItemProps) {
+  return (
+    <AriaGridListLoadMoreItem
+      {...props}
+      className={twMerge("flex items-center justify-center py-3", props.className)}
+    >
+      {children ?? (
+        <span className="h-4 w-4 animate-spin rounded-full border-2 border-[color:var(--accent)] border-t-transparent" />
+      )}
+    </AriaGridListLoadMoreItem>
+  );
+}
@@ -0,0 +1,51 @@
+import { ApiError } from "../lib/api-error";
+
+export type RetryOptions = {
+  /** Attempts after the first one; 0 disables retrying. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+const mutationRetryOptions: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+/**
+ * Server errors (5xx) and dropped connections can pass on their own. Client errors (4xx) would
+ * fail the same way again, and requests made while offline wait in the outbox instead.
+ */
+export const isRetryableError = (error: unknown) => {
+  if (error instanceof ApiError) {
+    return error.status !== null && error.status >= 500;
+  }
+
+  return error instanceof TypeError && (typeof navigator === "undefined" || navigator.onLine);
+};
+
+/** Exponential backoff with jitter, so clients that failed together don't retry together. */
+export const getRetryDelay = (attempt: number, options: RetryOptions = mutationRetryOptions) => {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const withRetry = async <T>(
+  run: () => Promise<T>,
+  options: RetryOptions = mutationRetryOptions,
+) => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (err) {
+      if (attempt >= options.retries || !isRetryableError(err)) {
+        throw err;
+      }
+
+      await wait(getRetryDelay(attempt, options));
+    }
+  }
+};
@@ -0,0 +1,114 @@
+const databaseName = "todos-offline";
+const databaseVersion = 2;
+
+const listStoreName = "lists";
+const outboxStoreName = "outbox";
+const replayedIdStoreName = "replayedIds";
+
+type ListSnapshot = {
+  listKey: string;
+  rows: unknown[];
+  savedAt: string;
+};
+
+export type StoredOutboxEntry<T> = T & {
+  seq: number;
+  queuedAt: string;
+};
+
+type ReplayedId = {
+  tempId: number;
+  id: number;
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available."));
+  }
+
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(databaseName, databaseVersion);
+
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(listStoreName)) {
+        database.createObjectStore(listStoreName, { keyPath: "listKey" });
+      }
+      if (!database.objectStoreNames.contains(outboxStoreName)) {
+        database.createObjectStore(outboxStoreName, { keyPath: "seq", autoIncrement: true });
+      }
+      database.createObjectStore(replayedIdStoreName, { keyPath: "tempId" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+
+  return databasePromise;
+};
+
+const getStore = async (storeName: string, mode: IDBTransactionMode) => {
+  const database = await openDatabase();
+  return database.transaction(storeName, mode).objectStore(storeName);
+};
+
+/** Returns the rows last saved for a list, or `null` when the list was never loaded online. */
+export async function readListSnapshot(listKey: string): Promise<unknown[] | null> {
+  const store = await getStore(listStoreName, "readonly");
+  const snapshot = (await toPromise(store.get(listKey))) as ListSnapshot | undefined;
+
+  return snapshot ? snapshot.rows : null;
+}
+
+export async function writeListSnapshot(listKey: string, rows: unknown[]) {
+  const snapshot: ListSnapshot = { listKey, rows, savedAt: new Date().toISOString() };
+  const store = await getStore(listStoreName, "readwrite");
+
+  await toPromise(store.put(snapshot));
+}
+
+/** Reads every queued entry, oldest first. */
+export async function readOutboxEntries<T>(): Promise<Array<StoredOutboxEntry<T>>> {
+  const store = await getStore(outboxStoreName, "readonly");
+  return (await toPromise(store.getAll())) as Array<StoredOutboxEntry<T>>;
+}
+
+export async function addOutboxEntry<T extends object>(entry: T) {
+  const store = await getStore(outboxStoreName, "readwrite");
+  return (await toPromise(store.add({ ...entry, queuedAt: new Date().toISOString() }))) as number;
+}
+
+export async function deleteOutboxEntry(seq: number) {
+  const store = await getStore(outboxStoreName, "readwrite");
+  await toPromise(store.delete(seq));
+}
+
+/** The server ids given to todos created offline, by temporary id, for entries still queued. */
+export async function readReplayedIds(): Promise<Map<number, number>> {
+  const store = await getStore(replayedIdStoreName, "readonly");
+  const rows = (await toPromise(store.getAll())) as ReplayedId[];
+
+  return new Map(rows.map((row) => [row.tempId, row.id]));
+}
+
+export async function addReplayedId(tempId: number, id: number) {
+  const row: ReplayedId = { tempId, id };
+  const store = await getStore(replayedIdStoreName, "readwrite");
+
+  await toPromise(store.put(row));
+}
+
+export async function clearReplayedIds() {
+  const store = await getStore(replayedIdStoreName, "readwrite");
+  await toPromise(store.clear());
+}
@@ -4,6 +4,8 @@ export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       refetchOnWindowFocus: false,
+      // Always run the query function so todo lists can fall back to their offline snapshot.
+      networkMode: "offlineFirst",
     },
   },
 });
@@ -0,0 +1,159 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  deleteApiTodosByIdChecklistByItemId,
+  getApiTodosByIdChecklist,
+  patchApiTodosByIdChecklistByItemId,
+  postApiTodosByIdChecklist,
+  postApiTodosByIdChecklistByItemIdPromote,
+  putApiTodosByIdChecklistOrder,
+  type TodoChecklistItemDto,
+  type TodoChecklistResponse,
+} from "../client";
+import { showErrorToast, toApiError } from "../lib/api-error";
+import { queryClient } from "./query-client";
+import { applySavedTodos, isTemporaryTodoId, todosQueryKey } from "./todos";
+
+export type TodoChecklistItem = TodoChecklistItemDto;
+
+const apiBaseUrl = typeof window === "undefined" ? "" : window.location.origin;
+
+// Optimistic items use negative ids until the server assigns the real one.
+let nextTemporaryItemId = -1;
+
+// Lives under the todos key, so a resync or a saved todo refreshes an open checklist too.
+export const todoChecklistQueryKey = (todoId: number) =>
+  [...todosQueryKey, "checklist", todoId] as const;
+
+const fetchChecklist = async (todoId: number) => {
+  const result = await getApiTodosByIdChecklist({ baseUrl: apiBaseUrl, path: { id: todoId } });
+
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not load the checklist.");
+  }
+
+  return result.data;
+};
+
+/** The todo's checklist in order. Todos that haven't been saved yet have none. */
+export const useTodoChecklist = (todoId: number) =>
+  useQuery({
+    queryKey: todoChecklistQueryKey(todoId),
+    queryFn: () => fetchChecklist(todoId),
+    enabled: !isTemporaryTodoId(todoId),
+  });
+
+/**
+ * Shows `update` in the checklist straight away, then replaces it with what the server saved and
+ * passes the todo's new progress counts on to the lists. A failure restores the previous items.
+ */
+const saveChecklistChange = async (
+  todoId: number,
+  update: (items: TodoChecklistItem[]) => TodoChecklistItem[],
+  send: () => Promise<{ data?: TodoChecklistResponse; error?: unknown; response?: Response }>,
+  failureMessage: string,
+) => {
+  const queryKey = todoChecklistQueryKey(todoId);
+  await queryClient.cancelQueries({ queryKey });
+
+  const previous = queryClient.getQueryData<TodoChecklistItem[]>(queryKey);
+  if (previous) {
+    queryClient.setQueryData(queryKey, update(previous));
+  }
+
+  try {
+    const result = await send();
+
+    if (result.error || !result.data) {
+      throw toApiError(result, failureMessage);
+    }
+
+    queryClient.setQueryData(queryKey, result.data.items);
+    applySavedTodos("updated", [result.data.todo]);
+    if (result.data.promoted) {
+      applySavedTodos("created", [result.data.promoted]);
+    }
+
+    return result.data;
+  } catch (err) {
+    queryClient.setQueryData(queryKey, previous);
+    showErrorToast(err, failureMessage);
+    return null;
+  }
+};
+
+export const addChecklistItem = (todoId: number, title: string) =>
+  saveChecklistChange(
+    todoId,
+    (items) => [
+      ...items,
+      {
+        id: nextTemporaryItemId--,
+        todoId,
+        title,
+        isCompleted: false,
+        sortOrder: (items[items.length - 1]?.sortOrder ?? -1) + 1,
+      },
+    ],
+    () => postApiTodosByIdChecklist({ baseUrl: apiBaseUrl, path: { id: todoId }, body: { title } }),
+    "Could not add this checklist item.",
+  );
+
+export const updateChecklistItem = (
+  todoId: number,
+  itemId: number,
+  changes: Partial<Pick<TodoChecklistItem, "title" | "isCompleted">>,
+) =>
+  saveChecklistChange(
+    todoId,
+    (items) => items.map((item) => (item.id === itemId ? { ...item, ...changes } : item)),
+    () =>
+      patchApiTodosByIdChecklistByItemId({
+        baseUrl: apiBaseUrl,
+        path: { id: todoId, itemId },
+        body: { title: changes.title ?? null, isCompleted: changes.isCompleted ?? null },
+      }),
+    "Could not update this checklist item.",
+  );
+
+export const deleteChecklistItem = (todoId: number, itemId: number) =>
+  saveChecklistChange(
+    todoId,
+    (items) => items.filter((item) => item.id !== itemId),
+    () =>
+      deleteApiTodosByIdChecklistByItemId({ baseUrl: apiBaseUrl, path: { id: todoId, itemId } }),
+    "Could not delete this checklist item.",
+  );
+
+/** Saves the checklist in the order of `itemIds`, which has to name every item once. */
+export const reorderChecklist = (todoId: number, itemIds: number[]) =>
+  saveChecklistChange(
+    todoId,
+    (items) =>
+      itemIds.flatMap((itemId, position) => {
+        const item = items.find((entry) => entry.id === itemId);
+        return item ? [{ ...item, sortOrder: position }] : [];
+      }),
+    () =>
+      putApiTodosByIdChecklistOrder({
+        baseUrl: apiBaseUrl,
+        path: { id: todoId },
+        body: { itemIds },
+      }),
+    "Could not reorder the checklist.",
+  );
+
+/** Turns a checklist item into a todo of its own and returns the new todo. */
+export const promoteChecklistItem = async (todoId: number, itemId: number) => {
+  const saved = await saveChecklistChange(
+    todoId,
+    (items) => items.filter((item) => item.id !== itemId),
+    () =>
+      postApiTodosByIdChecklistByItemIdPromote({
+        baseUrl: apiBaseUrl,
+        path: { id: todoId, itemId },
+      }),
+    "Could not turn this item into a task.",
+  );
+
+  return saved?.promoted ?? null;
+};
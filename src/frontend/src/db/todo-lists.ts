@@ -0,0 +1,98 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  deleteApiListsByListId,
+  getApiLists,
+  patchApiListsByListId,
+  postApiLists,
+  type TodoListDto,
+} from "../client";
+import { toApiError } from "../lib/api-error";
+import { queryClient } from "./query-client";
+import { broadcastResync } from "./todo-sync";
+import { todoListsQueryKey, todosQueryKey } from "./todos";
+
+/** One of the user's named lists. Named apart from `TodoList`, the cached todos of a filter. */
+export type TodoListEntry = TodoListDto;
+
+export type TodoListChanges = Pick<TodoListEntry, "name" | "color">;
+
+/** The colors offered for a list; the server accepts any `#rrggbb`. */
+export const todoListColors = [
+  "#64748b",
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+/** Stands for "in no list" where a list is picked by a string key, such as a select. */
+export const noListKey = "none";
+
+export const toListKey = (listId: number | null) => (listId === null ? noListKey : String(listId));
+
+export const fromListKey = (key: string) => (key === noListKey ? null : Number(key));
+
+const apiBaseUrl = typeof window === "undefined" ? "" : window.location.origin;
+
+const fetchTodoLists = async () => {
+  const result = await getApiLists({ baseUrl: apiBaseUrl });
+
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not load lists.");
+  }
+
+  return result.data;
+};
+
+/** The user's lists by name with their open todo counts, and the open count across all todos. */
+export const useTodoLists = () =>
+  useQuery({ queryKey: todoListsQueryKey, queryFn: fetchTodoLists });
+
+// Other tabs only hear about todo changes, so list changes ask them to refetch.
+const refreshLists = async () => {
+  await queryClient.invalidateQueries({ queryKey: todoListsQueryKey });
+  broadcastResync();
+};
+
+/** Creates a list and returns it. Throws an `ApiError` with field errors when the server refuses. */
+export const createTodoList = async (changes: TodoListChanges) => {
+  const result = await postApiLists({ baseUrl: apiBaseUrl, body: changes });
+
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not create this list.");
+  }
+
+  await refreshLists();
+  return result.data;
+};
+
+export const updateTodoList = async (listId: number, changes: TodoListChanges) => {
+  const result = await patchApiListsByListId({
+    baseUrl: apiBaseUrl,
+    path: { listId },
+    body: changes,
+  });
+
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not save this list.");
+  }
+
+  await refreshLists();
+  return result.data;
+};
+
+/** Deletes a list. Its todos stay and move out of any list, which the server announces itself. */
+export const deleteTodoList = async (listId: number) => {
+  const result = await deleteApiListsByListId({ baseUrl: apiBaseUrl, path: { listId } });
+
+  if (result.error) {
+    throw toApiError(result, "Could not delete this list.");
+  }
+
+  await queryClient.invalidateQueries({ queryKey: todosQueryKey });
+  broadcastResync();
+};
@@ -0,0 +1,215 @@
+import { useSyncExternalStore } from "react";
+import type {
+  BatchTodosRequest,
+  CreateTodoRequest,
+  MoveTodoRequest,
+  UpdateTodoRequest,
+} from "../client";
+import { queue as toastQueue } from "../components/ui/Toast";
+import { getRetryDelay, isRetryableError } from "./mutation-retry";
+import {
+  addOutboxEntry,
+  addReplayedId,
+  clearReplayedIds,
+  deleteOutboxEntry,
+  readOutboxEntries,
+  readReplayedIds,
+} from "./offline-store";
+
+/** A todo mutation that could not reach the server, kept until it can be replayed. */
+export type OutboxEntry =
+  | { kind: "create"; tempId: number; body: CreateTodoRequest }
+  | { kind: "update"; id: number; body: UpdateTodoRequest; ifMatch?: string }
+  | { kind: "delete"; id: number }
+  | { kind: "batch"; body: BatchTodosRequest }
+  | { kind: "move"; id: number; body: MoveTodoRequest };
+
+/**
+ * Sends one entry to the API. `resolveId` maps temporary ids of todos created offline to the ids
+ * the server assigned once their own entry was replayed.
+ */
+export type OutboxSender = (
+  entry: OutboxEntry,
+  resolveId: (id: number) => number,
+) => Promise<{ createdId?: number }>;
+
+export type OutboxStatus = {
+  isOnline: boolean;
+  pendingCount: number;
+  isReplaying: boolean;
+};
+
+let status: OutboxStatus = {
+  isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+  pendingCount: 0,
+  isReplaying: false,
+};
+const statusListeners = new Set<() => void>();
+
+const setStatus = (changes: Partial<OutboxStatus>) => {
+  status = { ...status, ...changes };
+  statusListeners.forEach((listener) => listener());
+};
+
+const subscribeToStatus = (listener: () => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+export const useOutboxStatus = () => useSyncExternalStore(subscribeToStatus, () => status);
+
+// fetch rejects with a TypeError when the request never reached the server.
+export const isNetworkError = (error: unknown) =>
+  error instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+
+/** New mutations queue behind pending ones so the server always sees them in order. */
+export const shouldQueueMutation = () => !status.isOnline || status.pendingCount > 0;
+
+export const enqueueMutation = async (entry: OutboxEntry) => {
+  await addOutboxEntry(entry);
+  setStatus({ pendingCount: status.pendingCount + 1 });
+
+  // Queued while the browser still counts as online, so the server or the connection failed and
+  // no "online" event will come to replay it. A replay already running picks the entry up itself.
+  if (status.isOnline && !status.isReplaying) {
+    scheduleReplay();
+  }
+};
+
+const replayedIds = new Map<number, number>();
+const resolveId = (id: number) => replayedIds.get(id) ?? id;
+
+let sender: OutboxSender | null = null;
+let onReplayed: (() => void) | null = null;
+
+let replayAttempt = 0;
+let replayTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Still online but the server is unreachable or failing: try again later rather than waiting for
+// an "online" event that won't come.
+const scheduleReplay = () => {
+  if (replayTimer !== null) {
+    return;
+  }
+
+  replayTimer = setTimeout(() => {
+    replayTimer = null;
+    void replayOutbox();
+  }, getRetryDelay(replayAttempt));
+  replayAttempt += 1;
+};
+
+export const replayOutbox = async () => {
+  if (!sender || status.isReplaying || !status.isOnline) {
+    return;
+  }
+
+  setStatus({ isReplaying: true });
+
+  let replayedCount = 0;
+  let rejectedCount = 0;
+  let stalled = false;
+
+  try {
+    // Creates replayed before a reload still map the ids their queued follow-up changes use.
+    for (const [tempId, id] of await readReplayedIds()) {
+      replayedIds.set(tempId, id);
+    }
+
+    let entries = await readOutboxEntries<OutboxEntry>();
+
+    // Mutations made during the replay queue behind it, so keep reading until the outbox is empty.
+    while (entries.length > 0 && !stalled) {
+      setStatus({ pendingCount: entries.length });
+
+      for (const entry of entries) {
+        let createdId: number | undefined;
+
+        try {
+          ({ createdId } = await sender(entry, resolveId));
+        } catch (err) {
+          if (isNetworkError(err) || isRetryableError(err)) {
+            // Offline or a transient server error: keep this entry and everything after it.
+            stalled = true;
+            break;
+          }
+
+          console.warn("Dropped an offline change the server rejected.", entry, err);
+          rejectedCount += 1;
+        }
+
+        // Kept before the entry goes, so a reload in between can't lose the server's id.
+        if (entry.kind === "create" && createdId !== undefined) {
+          replayedIds.set(entry.tempId, createdId);
+          await addReplayedId(entry.tempId, createdId);
+        }
+
+        await deleteOutboxEntry(entry.seq);
+        replayedCount += 1;
+        setStatus({ pendingCount: status.pendingCount - 1 });
+      }
+
+      if (!stalled) {
+        entries = await readOutboxEntries<OutboxEntry>();
+      }
+    }
+
+    // Nothing queued refers to a temporary id any more.
+    if (!stalled) {
+      await clearReplayedIds();
+    }
+  } finally {
+    setStatus({ isReplaying: false });
+  }
+
+  if (!stalled) {
+    replayAttempt = 0;
+  }
+  // Stalled, or entries were queued after the replay last read the outbox.
+  if ((stalled || status.pendingCount > 0) && status.isOnline) {
+    scheduleReplay();
+  }
+
+  if (rejectedCount > 0) {
+    toastQueue.add({
+      title:
+        rejectedCount === 1
+          ? "1 offline change couldn't be saved"
+          : `${rejectedCount} offline changes couldn't be saved`,
+      description: "The server rejected them after you reconnected.",
+    });
+  }
+
+  if (replayedCount > 0) {
+    onReplayed?.();
+  }
+};
+
+/** Starts replaying queued mutations now and whenever the browser comes back online. */
+export const startOutbox = (options: { send: OutboxSender; onReplayed: () => void }) => {
+  sender = options.send;
+  onReplayed = options.onReplayed;
+
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.addEventListener("online", () => {
+    setStatus({ isOnline: true });
+    void replayOutbox();
+  });
+  window.addEventListener("offline", () => {
+    setStatus({ isOnline: false });
+  });
+
+  readOutboxEntries<OutboxEntry>()
+    .then((entries) => {
+      setStatus({ pendingCount: entries.length });
+      return replayOutbox();
+    })
+    .catch((err) => {
+      console.warn("Could not read the offline outbox.", err);
+    });
+};
@@ -0,0 +1,23 @@
+import type { TodoPriority } from "../client";
+
+export type { TodoPriority };
+
+/** Every priority from least to most important, matching the server's ranking. */
+export const todoPriorities: Array<{ key: TodoPriority; label: string }> = [
+  { key: "none", label: "None" },
+  { key: "low", label: "Low" },
+  { key: "medium", label: "Medium" },
+  { key: "high", label: "High" },
+  { key: "urgent", label: "Urgent" },
+];
+
+const priorityKeys = todoPriorities.map((priority) => priority.key);
+
+export const isTodoPriority = (value: unknown): value is TodoPriority =>
+  typeof value === "string" && priorityKeys.includes(value as TodoPriority);
+
+/** Where a priority ranks, from 0 for none up to urgent. */
+export const getPriorityRank = (priority: TodoPriority) => priorityKeys.indexOf(priority);
+
+export const getPriorityLabel = (priority: TodoPriority) =>
+  todoPriorities[getPriorityRank(priority)]?.label ?? priority;
@@ -0,0 +1,180 @@
+import {
+  fromDate,
+  getDayOfWeek,
+  parseDate,
+  toCalendarDate,
+  toCalendarDateTime,
+  toTime,
+  toZoned,
+  type CalendarDate,
+  type CalendarDateTime,
+} from "@internationalized/date";
+import type { DayOfWeek, TodoRepeatFrequency, TodoRepeatRule } from "../client";
+import type { TodoDue } from "../lib/due-date";
+
+export type { DayOfWeek, TodoRepeatFrequency, TodoRepeatRule };
+
+export type TodoRepeatDue = TodoDue & { repeat: TodoRepeatRule | null };
+
+export const todoRepeatFrequencies: Array<{ key: TodoRepeatFrequency; label: string }> = [
+  { key: "daily", label: "Daily" },
+  { key: "weekly", label: "Weekly" },
+  { key: "monthlyByDate", label: "Monthly on the same date" },
+  { key: "monthlyByWeekday", label: "Monthly on the same weekday" },
+  { key: "afterCompletion", label: "Days after completion" },
+];
+
+/** Sunday first, matching the server's `DayOfWeek` and the weeks repeats step through. */
+export const weekdays: Array<{ key: DayOfWeek; label: string; name: string }> = [
+  { key: "sunday", label: "Sun", name: "Sunday" },
+  { key: "monday", label: "Mon", name: "Monday" },
+  { key: "tuesday", label: "Tue", name: "Tuesday" },
+  { key: "wednesday", label: "Wed", name: "Wednesday" },
+  { key: "thursday", label: "Thu", name: "Thursday" },
+  { key: "friday", label: "Fri", name: "Friday" },
+  { key: "saturday", label: "Sat", name: "Saturday" },
+];
+
+// Matches the server's limit.
+export const maxRepeatInterval = 365;
+
+const frequencyKeys = todoRepeatFrequencies.map((frequency) => frequency.key);
+const weekdayKeys = weekdays.map((weekday) => weekday.key);
+const ordinals = ["first", "second", "third", "fourth"];
+
+export const isTodoRepeatRule = (value: unknown): value is TodoRepeatRule => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const rule = value as Record<string, unknown>;
+  return (
+    frequencyKeys.includes(rule.frequency as TodoRepeatFrequency) &&
+    (rule.interval === undefined || Number.isInteger(rule.interval)) &&
+    (rule.weekdays == null ||
+      (Array.isArray(rule.weekdays) &&
+        rule.weekdays.every((day) => weekdayKeys.includes(day as DayOfWeek)))) &&
+    (rule.timeZone == null || typeof rule.timeZone === "string")
+  );
+};
+
+const dayIndex = (date: CalendarDate | CalendarDateTime) => getDayOfWeek(date, "en-US");
+
+// The wall-clock due the rule counts from: the calendar date for all-day dues, the rule's zone otherwise.
+const toWallClock = (todo: TodoDue, timeZone: string, today: CalendarDate) => {
+  if (!todo.dueDate) {
+    return toCalendarDateTime(today);
+  }
+
+  return todo.isAllDay
+    ? toCalendarDateTime(parseDate(todo.dueDate.slice(0, 10)))
+    : toCalendarDateTime(fromDate(new Date(todo.dueDate), timeZone));
+};
+
+// One calendar step, mirroring the server: monthly steps keep the day or weekday of `anchor`.
+const stepRepeat = (
+  rule: TodoRepeatRule,
+  from: CalendarDateTime,
+  anchor: CalendarDateTime,
+): CalendarDateTime => {
+  const interval = rule.interval ?? 1;
+  const month = from.set({ day: 1 }).add({ months: interval });
+
+  switch (rule.frequency) {
+    case "weekly": {
+      const days = rule.weekdays?.length
+        ? rule.weekdays.map((day) => weekdayKeys.indexOf(day))
+        : [dayIndex(anchor)];
+
+      // The rest of this week first, then the first chosen day `interval` weeks on.
+      for (let day = from.add({ days: 1 }); dayIndex(day) !== 0; day = day.add({ days: 1 })) {
+        if (days.includes(dayIndex(day))) {
+          return day;
+        }
+      }
+
+      const weekStart = from.add({ days: 7 * interval - dayIndex(from) });
+      const offset = Math.min(...days);
+      return weekStart.add({ days: offset });
+    }
+    case "monthlyByDate":
+      // `set` keeps the day within the month, so the 31st becomes the 30th or 28th.
+      return month.set({ day: anchor.day });
+    case "monthlyByWeekday": {
+      const week = Math.floor((anchor.day - 1) / 7);
+      if (week < 4) {
+        return month.add({ days: ((dayIndex(anchor) - dayIndex(month) + 7) % 7) + 7 * week });
+      }
+
+      const lastDay = month.add({ months: 1 }).subtract({ days: 1 });
+      return lastDay.subtract({ days: (dayIndex(lastDay) - dayIndex(anchor) + 7) % 7 });
+    }
+    default:
+      return from.add({ days: interval });
+  }
+};
+
+/**
+ * When the todo after this one will be due, worked out the way the server does when the todo is
+ * completed at `at`. Null when the todo doesn't repeat.
+ */
+export const getNextDue = (todo: TodoRepeatDue, at: Date = new Date()): TodoDue | null => {
+  const rule = todo.repeat;
+  if (!rule) {
+    return null;
+  }
+
+  const timeZone = rule.timeZone ?? "UTC";
+  const isAllDay = !todo.dueDate || todo.isAllDay;
+  const current = fromDate(at, timeZone);
+  const today = toCalendarDate(current);
+  const due = toWallClock(todo, timeZone, today);
+
+  let next = due;
+  if (rule.frequency === "afterCompletion") {
+    next = toCalendarDateTime(today.add({ days: rule.interval ?? 1 }), toTime(due));
+  } else {
+    // Occurrences that are already over are skipped, so completing late still lands in the future.
+    do {
+      next = stepRepeat(rule, next, due);
+    } while (
+      isAllDay
+        ? toCalendarDate(next).compare(today) <= 0
+        : toZoned(next, timeZone).compare(current) <= 0
+    );
+  }
+
+  return isAllDay
+    ? { dueDate: `${toCalendarDate(next).toString()}T00:00:00.000Z`, isAllDay: true }
+    : { dueDate: toZoned(next, timeZone).toDate().toISOString(), isAllDay: false };
+};
+
+const plural = (count: number, unit: string) => (count === 1 ? unit : `${count} ${unit}s`);
+
+/**
+ * Describes a rule in words, such as "Every 2 weeks on Mon, Thu". Monthly rules read their day from
+ * `dueDate`, a `YYYY-MM-DD` value, or today without one.
+ */
+export const describeRepeat = (rule: TodoRepeatRule, dueDate: string, today: CalendarDate) => {
+  const interval = rule.interval ?? 1;
+  const anchor = dueDate ? parseDate(dueDate) : today;
+
+  switch (rule.frequency) {
+    case "daily":
+      return `Every ${plural(interval, "day")}`;
+    case "weekly": {
+      const days = rule.weekdays?.length ? rule.weekdays : [weekdayKeys[dayIndex(anchor)]];
+      const labels = weekdays.filter((day) => days.includes(day.key)).map((day) => day.label);
+      return `Every ${plural(interval, "week")} on ${labels.join(", ")}`;
+    }
+    case "monthlyByDate":
+      return `Every ${plural(interval, "month")} on day ${anchor.day}`;
+    case "monthlyByWeekday": {
+      const week = Math.floor((anchor.day - 1) / 7);
+      const weekday = weekdays[dayIndex(anchor)].name;
+      return `Every ${plural(interval, "month")} on the ${ordinals[week] ?? "last"} ${weekday}`;
+    }
+    case "afterCompletion":
+      return `${interval === 1 ? "1 day" : `${interval} days`} after completion`;
+  }
+};
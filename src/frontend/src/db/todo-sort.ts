@@ -0,0 +1,80 @@
+import { getPriorityRank } from "./todo-priority";
+import type { TodoItem } from "./todos";
+
+export type TodoSortField = "createdAt" | "title" | "due" | "priority" | "order";
+
+export type TodoSortDirection = "asc" | "desc";
+
+/** A sort key as `ApplySort` in `TodosApi.cs` accepts it; a leading `-` sorts descending. */
+export type TodoSort = TodoSortField | `-${TodoSortField}`;
+
+export const todoSortFields: Array<{ key: TodoSortField; label: string }> = [
+  { key: "createdAt", label: "Created" },
+  { key: "title", label: "Title" },
+  { key: "due", label: "Due date" },
+  { key: "priority", label: "Priority" },
+  { key: "order", label: "Manual" },
+];
+
+export const defaultTodoSort: TodoSort = "-createdAt";
+
+const sortFieldKeys = new Set<string>(todoSortFields.map((field) => field.key));
+
+export const isTodoSort = (value: unknown): value is TodoSort =>
+  typeof value === "string" && sortFieldKeys.has(value.startsWith("-") ? value.slice(1) : value);
+
+export const parseTodoSort = (sort: TodoSort) => ({
+  field: (sort.startsWith("-") ? sort.slice(1) : sort) as TodoSortField,
+  direction: (sort.startsWith("-") ? "desc" : "asc") as TodoSortDirection,
+});
+
+export const toTodoSort = (field: TodoSortField, direction: TodoSortDirection): TodoSort =>
+  direction === "desc" ? `-${field}` : field;
+
+const byNewest = (a: TodoItem, b: TodoItem) => Date.parse(b.createdAt) - Date.parse(a.createdAt);
+
+// Soonest due first with undated todos last, whatever the direction of the main sort.
+const bySoonestDue = (a: TodoItem, b: TodoItem) => {
+  const aDue = a.dueDate ? Date.parse(a.dueDate) : null;
+  const bDue = b.dueDate ? Date.parse(b.dueDate) : null;
+
+  if (aDue === null || bDue === null) {
+    return aDue === bDue ? 0 : aDue === null ? 1 : -1;
+  }
+
+  return aDue - bDue;
+};
+
+const titleCollator = new Intl.Collator(undefined, { sensitivity: "base" });
+
+/** Orders todos the same way the server does for a sort key, tie-breaks included. */
+export function compareTodos(sort: TodoSort): (a: TodoItem, b: TodoItem) => number {
+  const { field, direction } = parseTodoSort(sort);
+  const sign = direction === "asc" ? 1 : -1;
+
+  switch (field) {
+    case "createdAt":
+      return (a, b) => -sign * byNewest(a, b);
+    case "title":
+      return (a, b) => sign * titleCollator.compare(a.title, b.title) || byNewest(a, b);
+    case "order":
+      return (a, b) => sign * (a.sortOrder - b.sortOrder) || sign * byNewest(a, b);
+    case "due":
+      // Todos without a due date stay last in both directions.
+      return (a, b) => {
+        const aDue = a.dueDate ? Date.parse(a.dueDate) : null;
+        const bDue = b.dueDate ? Date.parse(b.dueDate) : null;
+
+        if (aDue === null || bDue === null) {
+          return aDue === bDue ? byNewest(a, b) : aDue === null ? 1 : -1;
+        }
+
+        return sign * (aDue - bDue) || byNewest(a, b);
+      };
+    case "priority":
+      return (a, b) =>
+        sign * (getPriorityRank(a.priority) - getPriorityRank(b.priority)) ||
+        bySoonestDue(a, b) ||
+        byNewest(a, b);
+  }
+}
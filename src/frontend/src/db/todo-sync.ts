@@ -0,0 +1,72 @@
+import type { TodoEvent } from "../client";
+
+const channelName = "todos-sync";
+
+type SyncMessage = { kind: "event"; event: TodoEvent } | { kind: "resync" };
+
+let channel: BroadcastChannel | null = null;
+
+/** Shares a change this tab made with the app's other tabs, which don't wait for the server push. */
+export const broadcastTodoEvent = (event: TodoEvent) => {
+  channel?.postMessage({ kind: "event", event } satisfies SyncMessage);
+};
+
+/** Asks the other tabs to refetch, for changes that can't be described row by row. */
+export const broadcastResync = () => {
+  channel?.postMessage({ kind: "resync" } satisfies SyncMessage);
+};
+
+/**
+ * Listens for todo changes pushed by the server and by other tabs. `onResync` runs when changes may
+ * have been missed, such as after the event stream reconnects.
+ */
+export const startTodoSync = (options: {
+  url: string;
+  onEvent: (event: TodoEvent) => void;
+  onResync: () => void;
+}) => {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  if (typeof BroadcastChannel !== "undefined") {
+    channel = new BroadcastChannel(channelName);
+    channel.addEventListener("message", (message: MessageEvent<SyncMessage>) => {
+      if (message.data.kind === "event") {
+        options.onEvent(message.data.event);
+      } else {
+        options.onResync();
+      }
+    });
+  }
+
+  if (typeof EventSource === "undefined") {
+    return;
+  }
+
+  // EventSource reconnects by itself, and the server starts every connection with a "ready" event.
+  const source = new EventSource(options.url);
+  let hasConnected = false;
+
+  source.addEventListener("message", (message: MessageEvent<string>) => {
+    let event: TodoEvent;
+
+    try {
+      event = JSON.parse(message.data) as TodoEvent;
+    } catch (err) {
+      console.warn("Skipped an unreadable todo event.", err);
+      return;
+    }
+
+    if (event.type === "ready") {
+      if (hasConnected) {
+        options.onResync();
+      }
+
+      hasConnected = true;
+      return;
+    }
+
+    options.onEvent(event);
+  });
+};
@@ -0,0 +1,104 @@
+import { isTodoPriority } from "./todo-priority";
+import { isTodoRepeatRule } from "./todo-repeat";
+import type { TodoItem } from "./todos";
+
+type FieldCheck = (value: unknown) => string | null;
+
+export type InvalidTodoRow = {
+  row: unknown;
+  issues: string[];
+};
+
+export type TodoValidationResult = {
+  valid: TodoItem[];
+  invalid: InvalidTodoRow[];
+};
+
+const isDateString = (value: unknown) =>
+  typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+const integer: FieldCheck = (value) =>
+  typeof value === "number" && Number.isInteger(value) ? null : "must be an integer";
+
+const string: FieldCheck = (value) => (typeof value === "string" ? null : "must be a string");
+
+const nullableInteger: FieldCheck = (value) =>
+  value === null || (typeof value === "number" && Number.isInteger(value))
+    ? null
+    : "must be an integer or null";
+
+const nullableString: FieldCheck = (value) =>
+  value === null || typeof value === "string" ? null : "must be a string or null";
+
+const boolean: FieldCheck = (value) => (typeof value === "boolean" ? null : "must be a boolean");
+
+const stringArray: FieldCheck = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+    ? null
+    : "must be an array of strings";
+
+const priority: FieldCheck = (value) =>
+  isTodoPriority(value) ? null : "must be none, low, medium, high or urgent";
+
+const repeat: FieldCheck = (value) =>
+  value === null || isTodoRepeatRule(value) ? null : "must be a repeat rule or null";
+
+const date: FieldCheck = (value) => (isDateString(value) ? null : "must be a valid date string");
+
+const nullableDate: FieldCheck = (value) =>
+  value === null || isDateString(value) ? null : "must be a valid date string or null";
+
+// Keyed by every TodoItem field so a regenerated client type forces this schema to be updated too.
+const todoSchema: { [K in keyof TodoItem]-?: FieldCheck } = {
+  id: integer,
+  title: string,
+  notes: nullableString,
+  isCompleted: boolean,
+  sortOrder: integer,
+  dueDate: nullableDate,
+  isAllDay: boolean,
+  tags: stringArray,
+  priority,
+  listId: nullableInteger,
+  repeat,
+  checklistCount: integer,
+  checklistCompletedCount: integer,
+  createdAt: date,
+  updatedAt: date,
+  deletedAt: nullableDate,
+};
+
+export function validateTodo(row: unknown): string[] {
+  if (typeof row !== "object" || row === null || Array.isArray(row)) {
+    return ["must be an object"];
+  }
+
+  const record = row as Record<string, unknown>;
+  const issues: string[] = [];
+
+  for (const [field, check] of Object.entries(todoSchema)) {
+    const issue = check(record[field]);
+    if (issue) {
+      issues.push(`${field} ${issue}`);
+    }
+  }
+
+  return issues;
+}
+
+export function validateTodos(rows: readonly unknown[]): TodoValidationResult {
+  const valid: TodoItem[] = [];
+  const invalid: InvalidTodoRow[] = [];
+
+  for (const row of rows) {
+    const issues = validateTodo(row);
+
+    if (issues.length === 0) {
+      valid.push(row as TodoItem);
+    } else {
+      invalid.push({ row, issues });
+    }
+  }
+
+  return { valid, invalid };
+}
@@ -1,44 +1,316 @@
-import { createCollection } from "@tanstack/react-db";
+import { useSyncExternalStore } from "react";
+import { createCollection, createOptimisticAction } from "@tanstack/react-db";
 import { queryCollectionOptions } from "@tanstack/query-db-collection";
+import { hashKey, useQuery } from "@tanstack/react-query";
 import {
   deleteApiTodosById,
+  deleteApiTodosTrash,
+  deleteApiTodosTrashById,
+  getApiTodos,
+  getApiTodosTags,
   patchApiTodosById,
+  postApiTodos,
+  postApiTodosBatch,
+  postApiTodosByIdMove,
   postApiTodosByIdRestore,
+  type GetApiTodosData,
+  type TodoEvent,
+  type TodoItemDto,
+  type UpdateTodoRequest,
 } from "../client";
+import { queue as toastQueue } from "../components/ui/Toast";
+import { showErrorToast, toApiError } from "../lib/api-error";
+import { withRetry } from "./mutation-retry";
 import { queryClient } from "./query-client";
+import type { TodoSearch } from "../lib/todo-search";
+import { readListSnapshot, writeListSnapshot } from "./offline-store";
+import {
+  enqueueMutation,
+  isNetworkError,
+  shouldQueueMutation,
+  startOutbox,
+  type OutboxEntry,
+} from "./todo-outbox";
+import { broadcastResync, broadcastTodoEvent, startTodoSync } from "./todo-sync";
+import { validateTodo, validateTodos, type InvalidTodoRow } from "./todo-validation";
 
-export type TodoItem = {
-  id: number;
-  title: string;
-  notes: string | null;
-  isCompleted: boolean;
-  sortOrder: number;
-  dueDate: string | null;
-  createdAt: string;
-  updatedAt: string;
-};
+export type TodoItem = TodoItemDto;
+
+type TodoListQuery = NonNullable<GetApiTodosData["query"]>;
 
 export const todosQueryKey = ["todos"] as const;
 
 const apiBaseUrl = typeof window === "undefined" ? "" : window.location.origin;
 
-const toUpdateRequest = (changes: Partial<TodoItem>) => {
+let lastTemporaryTodoId = 0;
+
+// Optimistic rows use negative ids until the server assigns the real one. Those ids outlive the
+// page in offline snapshots and the outbox, and other tabs make their own, so they come from the
+// clock rather than a counter that starts over on every load.
+export const createTemporaryTodoId = () => {
+  const id = -(Date.now() * 1000 + Math.floor(Math.random() * 1000));
+  lastTemporaryTodoId = Math.min(id, lastTemporaryTodoId - 1);
+  return lastTemporaryTodoId;
+};
+
+export const isTemporaryTodoId = (id: number) => id < 0;
+
+// Matches the server's spacing so optimistic positions line up with what it will store.
+const sortOrderGap = 1024;
+
+/** Thrown when a save was based on an outdated copy of a todo. */
+export class TodoConflictError extends Error {
+  /** The todo as the server has it now. */
+  readonly current: TodoItem;
+
+  constructor(current: TodoItem) {
+    super("Someone else changed this todo while you were editing it.");
+    this.name = "TodoConflictError";
+    this.current = current;
+  }
+}
+
+/** Options a caller can attach to `collection.update` as metadata. */
+export type TodoUpdateMetadata = {
+  /** Makes the save fail with a `TodoConflictError` if the todo has changed since this version. */
+  ifMatch?: string;
+  /** Set to false when the caller shows the failure itself instead of the rollback toast. */
+  notifyOnRollback?: boolean;
+  /** When completing the todo, also ticks off every open item on its checklist. */
+  completeChecklist?: boolean;
+};
+
+// The server's ETag is the todo's updatedAt, so the version a client holds doubles as its If-Match.
+export const toIfMatch = (todo: TodoItem) => `"${todo.updatedAt}"`;
+
+// The server reads a due date sent without `isAllDay` as all-day, so a changed due date always
+// carries the row's flag even when only the date moved.
+const toUpdateRequest = (
+  changes: Partial<TodoItem>,
+  modified?: Partial<TodoItem>,
+): UpdateTodoRequest => {
   const dueDate = changes.dueDate;
+  const isAllDay =
+    dueDate !== undefined || changes.isAllDay !== undefined
+      ? (changes.isAllDay ?? modified?.isAllDay ?? null)
+      : null;
 
   return {
     title: changes.title ?? null,
     notes: changes.notes ?? null,
     dueDate: dueDate ?? null,
     clearDueDate: dueDate === null,
-    sortOrder:
-      changes.sortOrder !== undefined && changes.sortOrder !== null
-        ? String(changes.sortOrder)
-        : null,
+    sortOrder: changes.sortOrder ?? null,
     isCompleted: changes.isCompleted ?? null,
+    isAllDay,
+    tags: changes.tags ?? null,
+    priority: changes.priority ?? null,
+    listId: changes.listId ?? null,
+    clearListId: changes.listId === null,
+    repeat: changes.repeat ?? null,
+    clearRepeat: changes.repeat === null,
+  };
+};
+
+export type TodoPagination = {
+  loadedCount: number;
+  totalCount: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+};
+
+const todosPageSize = 100;
+
+export const toListQuery = (filters: TodoSearch, listId?: number): TodoListQuery => {
+  const completed =
+    filters.status === "open" ? false : filters.status === "done" ? true : undefined;
+  const q = filters.q?.trim();
+
+  return {
+    ...(completed !== undefined ? { completed } : {}),
+    ...(filters.sort ? { sort: filters.sort } : {}),
+    ...(q ? { q } : {}),
+    ...(filters.tag ? { tag: filters.tag } : {}),
+    ...(listId !== undefined ? { listId } : {}),
+  };
+};
+
+const parseTotalCount = (value: string | null) => {
+  const totalCount = value ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isNaN(totalCount) ? 0 : totalCount;
+};
+
+const fetchTodosPage = async (listQuery: TodoListQuery, page: number) => {
+  const result = await getApiTodos({
+    baseUrl: apiBaseUrl,
+    query: { ...listQuery, page, pageSize: todosPageSize },
+  });
+
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not load todos.");
+  }
+
+  const rows: unknown = result.data;
+  const { valid, invalid } = validateTodos(Array.isArray(rows) ? rows : []);
+
+  return {
+    items: valid,
+    invalid,
+    totalCount: parseTotalCount(result.response.headers.get("X-Total-Count")),
   };
 };
 
-const parseTodos = (data: unknown): TodoItem[] => (Array.isArray(data) ? (data as TodoItem[]) : []);
+const reportedInvalidTodos = new Set<string>();
+
+// Rows that fail validation are dropped from the collection; each distinct row is reported once.
+const reportInvalidTodos = (rows: InvalidTodoRow[]) => {
+  const unreported = rows.filter(({ row }) => {
+    const key = JSON.stringify(row);
+    if (reportedInvalidTodos.has(key)) {
+      return false;
+    }
+
+    reportedInvalidTodos.add(key);
+    return true;
+  });
+
+  if (unreported.length === 0) {
+    return;
+  }
+
+  console.warn("Skipped todos with invalid data from the API.", unreported);
+
+  toastQueue.add({
+    title:
+      unreported.length === 1
+        ? "1 task couldn't be shown"
+        : `${unreported.length} tasks couldn't be shown`,
+    description: "The server sent data this app couldn't read.",
+  });
+};
+
+/**
+ * Sends one mutation to the API and returns the rows the server sent back. Rejected requests throw
+ * an `Error`; requests that never reached the server throw the `TypeError` from `fetch`.
+ */
+const sendTodoMutation = async (
+  entry: OutboxEntry,
+  resolveId: (id: number) => number = (id) => id,
+): Promise<{ rows: TodoItem[]; createdId?: number }> => {
+  switch (entry.kind) {
+    case "create": {
+      const result = await postApiTodos({ baseUrl: apiBaseUrl, body: entry.body });
+
+      if (result.error || !result.data) {
+        throw toApiError(result, "Could not save your todo.");
+      }
+
+      return { rows: [result.data], createdId: result.data.id };
+    }
+    case "update": {
+      const result = await patchApiTodosById({
+        baseUrl: apiBaseUrl,
+        path: { id: resolveId(entry.id) },
+        body: entry.body,
+        headers: entry.ifMatch ? { "If-Match": entry.ifMatch } : undefined,
+      });
+
+      if (result.response?.status === 412 && result.error) {
+        const { valid } = validateTodos([result.error]);
+        if (valid.length === 1) {
+          throw new TodoConflictError(valid[0]);
+        }
+      }
+
+      if (result.error || !result.data) {
+        throw toApiError(result, "Could not update this todo.");
+      }
+
+      return { rows: [result.data] };
+    }
+    case "delete": {
+      const result = await deleteApiTodosById({
+        baseUrl: apiBaseUrl,
+        path: { id: resolveId(entry.id) },
+      });
+
+      if (result.error) {
+        throw toApiError(result, "Could not delete this todo.");
+      }
+
+      return { rows: [] };
+    }
+    case "batch": {
+      // Multi-row transactions go through the batch endpoint so the server applies them all or none.
+      const { updates, deletes } = entry.body;
+      const result = await postApiTodosBatch({
+        baseUrl: apiBaseUrl,
+        body: {
+          updates: updates?.map((update) => ({ ...update, id: resolveId(update.id) })) ?? null,
+          deletes: deletes?.map(resolveId) ?? null,
+        },
+      });
+
+      if (result.error || !result.data) {
+        throw toApiError(
+          result,
+          deletes?.length ? "Could not delete these todos." : "Could not update these todos.",
+        );
+      }
+
+      return { rows: result.data.updated };
+    }
+    case "move": {
+      const { afterId, beforeId } = entry.body;
+      const result = await postApiTodosByIdMove({
+        baseUrl: apiBaseUrl,
+        path: { id: resolveId(entry.id) },
+        body: {
+          afterId: afterId === null ? null : resolveId(afterId),
+          beforeId: beforeId === null ? null : resolveId(beforeId),
+        },
+      });
+
+      if (result.error || !result.data) {
+        throw toApiError(result, "Could not move this todo.");
+      }
+
+      return { rows: result.data };
+    }
+  }
+};
+
+// Repeating these gives the same result (the batch is all or nothing), so transient failures retry.
+const idempotentKinds = new Set<OutboxEntry["kind"]>(["update", "delete", "batch"]);
+
+// Sends a mutation now, or queues it when offline or behind earlier queued ones. `null` means queued.
+const sendOrQueue = async (entry: OutboxEntry) => {
+  if (!shouldQueueMutation()) {
+    try {
+      return await (idempotentKinds.has(entry.kind)
+        ? withRetry(() => sendTodoMutation(entry))
+        : sendTodoMutation(entry));
+    } catch (err) {
+      if (!isNetworkError(err)) {
+        throw err;
+      }
+    }
+  }
+
+  // Queued edits replay as plain overwrites: by the time they are sent, the version they were based
+  // on may be a local copy the server never saw.
+  await enqueueMutation(entry.kind === "update" ? { ...entry, ifMatch: undefined } : entry);
+  return null;
+};
+
+// Errors already shown by a rollback toast, so callers awaiting the transaction don't repeat them.
+const notifiedRollbacks = new WeakSet<object>();
+
+export const isRollbackNotified = (err: unknown) =>
+  typeof err === "object" && err !== null && notifiedRollbacks.has(err);
+
+const describeTodos = (todos: Array<TodoItem | undefined>) =>
+  todos.length === 1 && todos[0] ? `"${todos[0].title}"` : `${todos.length} tasks`;
 
 const getMutationPayload = (mutation: {
   changes?: Partial<TodoItem>;
@@ -46,86 +318,535 @@ const getMutationPayload = (mutation: {
   original?: TodoItem;
 }) => mutation.changes ?? mutation.modified ?? {};
 
-export const todoCollection = createCollection(
-  queryCollectionOptions<TodoItem, unknown, typeof todosQueryKey, number>({
+// A change written straight into one list leaves the other cached lists stale.
+const invalidateOtherTodoLists = (queryKey: readonly unknown[]) => {
+  const queryHash = hashKey(queryKey);
+
+  void queryClient.invalidateQueries({
     queryKey: todosQueryKey,
-    queryClient,
-     queryFn: async () => {
-       const params = typeof window === "undefined" ? null : new URLSearchParams(window.location.search);
+    predicate: (query) => query.queryHash !== queryHash,
+  });
+};
 
-       const status = params?.get("status");
-       const completed = status === "open" ? false : status === "done" ? true : undefined;
-       const sort = params?.get("sort") === "due" ? "due" : undefined;
-       const q = params?.get("q")?.trim();
+// Temporary ids are only meaningful inside the tab that made them, so they are never shared.
+const shareTodoChange = (type: string, todos: TodoItem[], ids: number[] = []) => {
+  const sharedTodos = todos.filter((todo) => !isTemporaryTodoId(todo.id));
+  const sharedIds = ids.filter((id) => !isTemporaryTodoId(id));
 
-       const query = new URLSearchParams();
-       query.set("page", "1");
-       query.set("pageSize", "100");
+  if (sharedTodos.length > 0 || sharedIds.length > 0) {
+    broadcastTodoEvent({ type, todos: sharedTodos, ids: sharedIds });
+  }
+};
 
-       if (completed !== undefined) {
-         query.set("completed", String(completed));
-       }
+// Mirrors the server's list filters so pushed rows land only in the lists that would load them.
+const matchesListQuery = (todo: TodoItem, listQuery: TodoListQuery) => {
+  if (todo.deletedAt !== null) {
+    return false;
+  }
 
-       if (sort) {
-         query.set("sort", sort);
-       }
+  if (listQuery.completed !== undefined && todo.isCompleted !== listQuery.completed) {
+    return false;
+  }
 
-       if (q) {
-         query.set("q", q);
-       }
+  if (listQuery.tag && !todo.tags.includes(listQuery.tag)) {
+    return false;
+  }
 
-       const response = await fetch(`${apiBaseUrl}/api/todos?${query.toString()}`);
+  if (listQuery.listId !== undefined && todo.listId !== listQuery.listId) {
+    return false;
+  }
 
-       if (!response.ok) {
-         throw new Error("Could not load todos.");
-       }
+  const q = listQuery.q?.toLowerCase();
 
-       const data: unknown = await response.json();
-       return parseTodos(data);
-     },
-    getKey: (item) => item.id,
-    onUpdate: async ({ transaction }) => {
-      const mutation = transaction.mutations[0];
-      const changes = getMutationPayload(mutation);
-      const targetId = mutation.original?.id ?? changes.id;
+  return (
+    !q || todo.title.toLowerCase().includes(q) || (todo.notes?.toLowerCase().includes(q) ?? false)
+  );
+};
+
+export type MoveTodoTarget = {
+  id: number;
+  afterId: number | null;
+  beforeId: number | null;
+};
+
+const createTodoList = (listQuery: TodoListQuery) => {
+  const queryKey = [...todosQueryKey, "list", listQuery] as const;
+  const listKey = JSON.stringify(listQuery);
+
+  let requestedPageCount = 1;
+  let pagination: TodoPagination = {
+    loadedCount: 0,
+    totalCount: 0,
+    hasMore: false,
+    isLoadingMore: false,
+  };
+  const paginationListeners = new Set<() => void>();
+
+  const setPagination = (changes: Partial<TodoPagination>) => {
+    pagination = { ...pagination, ...changes };
+    paginationListeners.forEach((listener) => listener());
+  };
+
+  // The last rows seen for this list, served when it is loaded without a connection. Searches
+  // aren't kept: every one typed would leave a snapshot behind.
+  const saveSnapshot = (rows: TodoItem[]) => {
+    if (listQuery.q) {
+      return;
+    }
+
+    writeListSnapshot(listKey, rows).catch((err) => {
+      console.warn("Could not save todos for offline use.", err);
+    });
+  };
+
+  // The failed change is already rolled back when this runs; the toast offers to apply it again.
+  const notifyRollback = (title: string, err: unknown, retry: () => void) => {
+    if (typeof err === "object" && err !== null) {
+      notifiedRollbacks.add(err);
+    }
+
+    showErrorToast(err, "The server didn't accept the change.", {
+      title,
+      action: { label: "Retry", onAction: retry },
+    });
+  };
+
+  const loadSnapshot = async (error: unknown) => {
+    const rows = await readListSnapshot(listKey).catch(() => null);
+    if (!rows) {
+      throw error;
+    }
+
+    const { valid, invalid } = validateTodos(rows);
+    reportInvalidTodos(invalid);
+
+    setPagination({ loadedCount: valid.length, totalCount: valid.length, hasMore: false });
+
+    return valid;
+  };
+
+  const collection = createCollection(
+    queryCollectionOptions<TodoItem, unknown, typeof queryKey, number>({
+      queryKey,
+      queryClient,
+      queryFn: async () => {
+        try {
+          const firstPage = await fetchTodosPage(listQuery, 1);
+          const pageCount = Math.min(
+            requestedPageCount,
+            Math.max(1, Math.ceil(firstPage.totalCount / todosPageSize)),
+          );
+
+          const remainingPages = await Promise.all(
+            Array.from({ length: pageCount - 1 }, (_, index) =>
+              fetchTodosPage(listQuery, index + 2),
+            ),
+          );
+
+          const pages = [firstPage, ...remainingPages];
+
+          // Offset paging can shift rows between requests, so keep the first copy of each id.
+          const itemsById = new Map<number, TodoItem>();
+          for (const page of pages) {
+            for (const item of page.items) {
+              if (!itemsById.has(item.id)) {
+                itemsById.set(item.id, item);
+              }
+            }
+          }
+
+          const invalidRows = pages.flatMap((page) => page.invalid);
+          reportInvalidTodos(invalidRows);
+
+          const items = Array.from(itemsById.values());
+          const totalCount = Math.max(items.length, firstPage.totalCount);
+
+          setPagination({
+            loadedCount: items.length + invalidRows.length,
+            totalCount,
+            hasMore: pageCount * todosPageSize < totalCount,
+          });
+
+          saveSnapshot(items);
+
+          return items;
+        } catch (err) {
+          if (!isNetworkError(err)) {
+            throw err;
+          }
+
+          return loadSnapshot(err);
+        }
+      },
+      getKey: (item) => item.id,
+      onInsert: async ({ transaction }) => {
+        const created: TodoItem[] = [];
+        const queued: TodoItem[] = [];
+
+        await Promise.all(
+          transaction.mutations.map(async (mutation) => {
+            const draft = mutation.modified;
+
+            const sent = await sendOrQueue({
+              kind: "create",
+              tempId: draft.id,
+              body: {
+                title: draft.title,
+                notes: draft.notes,
+                dueDate: draft.dueDate,
+                isAllDay: draft.isAllDay,
+                tags: draft.tags,
+                priority: draft.priority,
+                listId: draft.listId,
+                repeat: draft.repeat,
+                sortOrder: null,
+              },
+            });
+
+            if (sent) {
+              created.push(...sent.rows);
+            } else {
+              queued.push(draft);
+            }
+          }),
+        );
+
+        if (created.some((item) => validateTodo(item).length > 0)) {
+          return { refetch: true };
+        }
+
+        // Write the server rows before the transaction settles so they replace the temporary ones.
+        // Queued rows keep their temporary ids until the outbox is replayed. A pushed event may
+        // already have added a created row, hence the upsert.
+        const addedCount =
+          created.filter((todo) => !collection.has(todo.id)).length + queued.length;
+
+        collection.utils.writeBatch(() => {
+          collection.utils.writeUpsert([...created, ...queued]);
+        });
+
+        setPagination({
+          loadedCount: pagination.loadedCount + addedCount,
+          totalCount: pagination.totalCount + addedCount,
+        });
+
+        shareTodoChange("created", created);
+
+        if (queued.length > 0) {
+          saveSnapshot(collection.toArray);
+        }
+
+        invalidateOtherTodoLists(queryKey);
 
-      if (!targetId) {
-        throw new Error("Could not determine which todo to update.");
+        return { refetch: false };
+      },
+      onUpdate: async ({ transaction }) => {
+        const updates = transaction.mutations.map((mutation) => {
+          const changes = getMutationPayload(mutation);
+          const targetId = mutation.original?.id ?? changes.id;
+
+          if (!targetId) {
+            throw new Error("Could not determine which todo to update.");
+          }
+
+          const { completeChecklist } = (mutation.metadata ?? {}) as TodoUpdateMetadata;
+
+          return {
+            id: targetId,
+            changes: {
+              ...toUpdateRequest(changes, mutation.modified),
+              ...(completeChecklist && { completeChecklist }),
+            },
+          };
+        });
+
+        const metadata = transaction.mutations[0].metadata as TodoUpdateMetadata | undefined;
+
+        let sent;
+        try {
+          sent = await sendOrQueue(
+            updates.length === 1
+              ? {
+                  kind: "update",
+                  id: updates[0].id,
+                  body: updates[0].changes,
+                  ifMatch: metadata?.ifMatch,
+                }
+              : { kind: "batch", body: { updates, deletes: null } },
+          );
+        } catch (err) {
+          // Show the newer version everywhere while the editor asks how to merge.
+          if (err instanceof TodoConflictError) {
+            applyChanges([err.current], []);
+          } else if (metadata?.notifyOnRollback !== false) {
+            const changesById = new Map(
+              transaction.mutations.map((mutation) => [mutation.key, mutation.changes]),
+            );
+
+            notifyRollback(
+              `Couldn't save changes to ${describeTodos(transaction.mutations.map((mutation) => mutation.original))}`,
+              err,
+              () => {
+                const ids = [...changesById.keys()].filter((id) => collection.has(id));
+                if (ids.length > 0) {
+                  collection.update(ids, (drafts) => {
+                    for (const draft of drafts) {
+                      Object.assign(draft, changesById.get(draft.id));
+                    }
+                  });
+                }
+              },
+            );
+          }
+
+          throw err;
+        }
+
+        if (!sent) {
+          const modified = transaction.mutations.map((mutation) => mutation.modified);
+
+          collection.utils.writeBatch(() => {
+            collection.utils.writeUpdate(modified);
+          });
+          saveSnapshot(collection.toArray);
+          shareTodoChange("updated", modified);
+
+          return { refetch: false };
+        }
+
+        shareTodoChange("updated", sent.rows);
+
+        await queryClient.invalidateQueries({ queryKey: todosQueryKey });
+      },
+      onDelete: async ({ transaction }) => {
+        const targetIds = transaction.mutations.map((mutation) => {
+          const targetId = mutation.original?.id;
+
+          if (!targetId) {
+            throw new Error("Could not determine which todo to delete.");
+          }
+
+          return targetId;
+        });
+
+        let sent;
+        try {
+          sent = await sendOrQueue(
+            targetIds.length === 1
+              ? { kind: "delete", id: targetIds[0] }
+              : { kind: "batch", body: { updates: null, deletes: targetIds } },
+          );
+        } catch (err) {
+          notifyRollback(
+            `Couldn't delete ${describeTodos(transaction.mutations.map((mutation) => mutation.original))}`,
+            err,
+            () => {
+              const ids = targetIds.filter((id) => collection.has(id));
+              if (ids.length > 0) {
+                collection.delete(ids);
+              }
+            },
+          );
+
+          throw err;
+        }
+
+        if (!sent) {
+          collection.utils.writeBatch(() => {
+            collection.utils.writeDelete(targetIds);
+          });
+          saveSnapshot(collection.toArray);
+          shareTodoChange("deleted", [], targetIds);
+
+          return { refetch: false };
+        }
+
+        shareTodoChange("deleted", [], targetIds);
+
+        await queryClient.invalidateQueries({ queryKey: todosQueryKey });
+      },
+    }),
+  );
+
+  const loadPages = async (pageCount: number) => {
+    if (pagination.isLoadingMore || !pagination.hasMore) {
+      return;
+    }
+
+    const previousPageCount = requestedPageCount;
+    requestedPageCount = pageCount;
+    setPagination({ isLoadingMore: true });
+
+    try {
+      await collection.utils.refetch({ throwOnError: true });
+    } catch (err) {
+      requestedPageCount = previousPageCount;
+      throw err;
+    } finally {
+      setPagination({ isLoadingMore: false });
+    }
+  };
+
+  const loadMore = () => loadPages(requestedPageCount + 1);
+
+  // For lookups that have to see every todo in the list, not just the pages scrolled to so far.
+  const loadAll = () => loadPages(Math.ceil(pagination.totalCount / todosPageSize));
+
+  /**
+   * Moves a todo between two neighbours in the manual order. The server usually rewrites only the
+   * moved row, but returns every row it renumbered when it has to rebalance.
+   */
+  const move = createOptimisticAction<MoveTodoTarget>({
+    onMutate: ({ id, afterId, beforeId }) => {
+      const after = afterId === null ? undefined : collection.get(afterId);
+      const before = beforeId === null ? undefined : collection.get(beforeId);
+
+      const sortOrder =
+        after && before
+          ? Math.trunc((after.sortOrder + before.sortOrder) / 2)
+          : after
+            ? after.sortOrder + sortOrderGap
+            : before
+              ? before.sortOrder - sortOrderGap
+              : null;
+
+      if (sortOrder === null) {
+        return;
       }
 
-      const result = await patchApiTodosById({
-        baseUrl: apiBaseUrl,
-        path: { id: targetId },
-        body: toUpdateRequest(changes),
+      collection.update(id, (draft) => {
+        draft.sortOrder = sortOrder;
       });
+    },
+    mutationFn: async ({ id, afterId, beforeId }) => {
+      const sent = await sendOrQueue({ kind: "move", id, body: { afterId, beforeId } });
 
-      if (result.error) {
-        throw new Error("Could not update this todo.");
+      if (!sent) {
+        const moved = collection.get(id);
+
+        if (moved) {
+          collection.utils.writeBatch(() => {
+            collection.utils.writeUpdate({ id, sortOrder: moved.sortOrder });
+          });
+          saveSnapshot(collection.toArray);
+          shareTodoChange("updated", [moved]);
+        }
+
+        return;
       }
 
-      await queryClient.invalidateQueries({ queryKey: todosQueryKey });
-    },
-    onDelete: async ({ transaction }) => {
-      const mutation = transaction.mutations[0];
-      const targetId = mutation.original?.id;
+      const { valid, invalid } = validateTodos(sent.rows);
 
-      if (!targetId) {
-        throw new Error("Could not determine which todo to delete.");
+      if (invalid.length > 0) {
+        await queryClient.invalidateQueries({ queryKey: todosQueryKey });
+        return;
       }
 
-      const result = await deleteApiTodosById({
-        baseUrl: apiBaseUrl,
-        path: { id: targetId },
-      });
+      // A rebalance renumbers every todo, including ones this list hasn't loaded; the other
+      // lists hear about those through the shared change and the refetch below.
+      const loaded = valid.filter((todo) => collection.has(todo.id));
+      if (loaded.length > 0) {
+        collection.utils.writeBatch(() => {
+          collection.utils.writeUpdate(loaded);
+        });
+      }
 
-      if (result.error) {
-        throw new Error("Could not delete this todo.");
+      shareTodoChange("updated", valid);
+      invalidateOtherTodoLists(queryKey);
+    },
+  });
+
+  // Applies changes made elsewhere as synced writes, keeping only the rows this list's filters match.
+  const applyChanges = (rows: TodoItem[], removedIds: number[]) => {
+    if (!collection.isReady()) {
+      return;
+    }
+
+    const upserts = rows.filter((todo) => matchesListQuery(todo, listQuery));
+    const removals = new Set(
+      [
+        ...rows.filter((todo) => !matchesListQuery(todo, listQuery)).map((todo) => todo.id),
+        ...removedIds,
+      ].filter((id) => collection.has(id)),
+    );
+
+    if (upserts.length === 0 && removals.size === 0) {
+      return;
+    }
+
+    const addedCount = upserts.filter((todo) => !collection.has(todo.id)).length;
+
+    collection.utils.writeBatch(() => {
+      if (upserts.length > 0) {
+        collection.utils.writeUpsert(upserts);
       }
+      if (removals.size > 0) {
+        collection.utils.writeDelete([...removals]);
+      }
+    });
+
+    setPagination({
+      loadedCount: pagination.loadedCount + addedCount - removals.size,
+      totalCount: pagination.totalCount + addedCount - removals.size,
+    });
 
-      await queryClient.invalidateQueries({ queryKey: todosQueryKey });
+    saveSnapshot(collection.toArray);
+  };
+
+  return {
+    collection,
+    loadMore,
+    loadAll,
+    move,
+    applyChanges,
+    // New todos go to the top of the manual order, the same place the server puts them.
+    getTopSortOrder: () => {
+      const sortOrders = collection.toArray.map((todo) => todo.sortOrder);
+      return sortOrders.length > 0 ? Math.min(...sortOrders) - sortOrderGap : 0;
     },
-  }),
-);
+    getPagination: () => pagination,
+    subscribeToPagination: (listener: () => void) => {
+      paginationListeners.add(listener);
+      return () => {
+        paginationListeners.delete(listener);
+      };
+    },
+  };
+};
+
+export type TodoList = ReturnType<typeof createTodoList>;
+
+export type TodoCollection = TodoList["collection"];
+
+// One list per distinct filter set in use, so switching back to a filter reuses its loaded rows.
+const todoLists = new Map<string, TodoList>();
+
+/** The cached todos for `filters`, narrowed to one of the user's lists when `listId` is given. */
+export const getTodoList = (filters: TodoSearch, listId?: number): TodoList => {
+  const listQuery = toListQuery(filters, listId);
+  const listKey = JSON.stringify(listQuery);
+
+  const cached = todoLists.get(listKey);
+  if (cached) {
+    return cached;
+  }
+
+  const list = createTodoList(listQuery);
+  todoLists.set(listKey, list);
+
+  // A collection nothing has used for its gcTime is cleaned up. Forgetting it then keeps the
+  // lists for past searches from piling up; coming back to the filter starts a fresh one.
+  list.collection.on("status:cleaned-up", () => {
+    if (todoLists.get(listKey) === list) {
+      todoLists.delete(listKey);
+    }
+  });
+
+  return list;
+};
+
+export const useTodoPagination = (list: TodoList) =>
+  useSyncExternalStore(list.subscribeToPagination, list.getPagination);
 
 export const restoreTodo = async (todoId: number) => {
   const result = await postApiTodosByIdRestore({
@@ -133,9 +854,213 @@ export const restoreTodo = async (todoId: number) => {
     path: { id: todoId },
   });
 
-  if (result.error) {
-    throw new Error("Could not restore this todo.");
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not restore this todo.");
   }
 
+  shareTodoChange("restored", [result.data]);
+
   await queryClient.invalidateQueries({ queryKey: todosQueryKey });
 };
+
+export const restoreTodos = async (todoIds: number[]) => {
+  const results = await Promise.all(
+    todoIds.map((todoId) =>
+      postApiTodosByIdRestore({
+        baseUrl: apiBaseUrl,
+        path: { id: todoId },
+      }),
+    ),
+  );
+
+  // Each todo is restored on its own, so the ones that made it are announced even if others failed.
+  const restored = results.flatMap((result) => (result.data ? [result.data] : []));
+  if (restored.length > 0) {
+    shareTodoChange("restored", restored);
+    await queryClient.invalidateQueries({ queryKey: todosQueryKey });
+  }
+
+  const failed = results.find((result) => result.error);
+  if (failed) {
+    throw toApiError(failed, "Could not restore these todos.");
+  }
+};
+
+/** Fetches every todo outside the trash, page by page, regardless of what the lists have loaded. */
+export const exportTodos = async () => {
+  const todos: TodoItem[] = [];
+
+  for (let page = 1; ; page++) {
+    const { items, invalid, totalCount } = await fetchTodosPage({}, page);
+    const fetchedCount = items.length + invalid.length;
+    todos.push(...items);
+
+    if (fetchedCount < todosPageSize || page * todosPageSize >= totalCount) {
+      return todos;
+    }
+  }
+};
+
+// Lives under the todos key, so every refresh of the lists refreshes the tag counts too.
+export const todoTagsQueryKey = [...todosQueryKey, "tags"] as const;
+
+const fetchTodoTags = async () => {
+  const result = await getApiTodosTags({ baseUrl: apiBaseUrl });
+
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not load tags.");
+  }
+
+  return result.data;
+};
+
+/** Every tag on a live todo with how many todos use it, sorted by name. */
+export const useTodoTags = () => useQuery({ queryKey: todoTagsQueryKey, queryFn: fetchTodoTags });
+
+// Lives under the todos key too; todo events refresh it as well, since they move the open counts.
+export const todoListsQueryKey = [...todosQueryKey, "lists"] as const;
+
+startOutbox({
+  send: sendTodoMutation,
+  onReplayed: () => {
+    void queryClient.invalidateQueries({ queryKey: todosQueryKey });
+    broadcastResync();
+  },
+});
+
+export const trashQueryKey = [...todosQueryKey, "trash"] as const;
+
+// Deleted todos live in their own collection; removing one from it purges it for good.
+export const trashCollection = createCollection(
+  queryCollectionOptions<TodoItem, unknown, typeof trashQueryKey, number>({
+    queryKey: trashQueryKey,
+    queryClient,
+    queryFn: async () => {
+      const query: TodoListQuery = { deleted: true, sort: "-deletedAt" };
+
+      const firstPage = await fetchTodosPage(query, 1);
+      const pageCount = Math.max(1, Math.ceil(firstPage.totalCount / todosPageSize));
+
+      const remainingPages = await Promise.all(
+        Array.from({ length: pageCount - 1 }, (_, index) => fetchTodosPage(query, index + 2)),
+      );
+
+      const pages = [firstPage, ...remainingPages];
+      reportInvalidTodos(pages.flatMap((page) => page.invalid));
+
+      const itemsById = new Map<number, TodoItem>();
+      for (const page of pages) {
+        for (const item of page.items) {
+          if (!itemsById.has(item.id)) {
+            itemsById.set(item.id, item);
+          }
+        }
+      }
+
+      return Array.from(itemsById.values());
+    },
+    getKey: (item) => item.id,
+    onDelete: async ({ transaction }) => {
+      const results = await Promise.all(
+        transaction.mutations.map((mutation) =>
+          deleteApiTodosTrashById({
+            baseUrl: apiBaseUrl,
+            path: { id: mutation.key },
+          }),
+        ),
+      );
+
+      const purgedIds = transaction.mutations
+        .filter((_, index) => !results[index].error)
+        .map((mutation) => mutation.key);
+      if (purgedIds.length > 0) {
+        shareTodoChange("purged", [], purgedIds);
+      }
+
+      const failed = results.find((result) => result.error);
+      if (failed) {
+        // Each todo is purged on its own. Refetch before the rollback so the ones already gone
+        // don't come back with the ones that failed.
+        if (purgedIds.length > 0) {
+          await queryClient.refetchQueries({ queryKey: trashQueryKey, exact: true });
+        }
+
+        throw toApiError(
+          failed,
+          results.length === 1
+            ? "Could not permanently delete this todo."
+            : "Could not permanently delete these todos.",
+        );
+      }
+    },
+  }),
+);
+
+export const emptyTrash = async () => {
+  const result = await deleteApiTodosTrash({ baseUrl: apiBaseUrl });
+
+  if (result.error || !result.data) {
+    throw toApiError(result, "Could not empty the trash.");
+  }
+
+  await queryClient.invalidateQueries({ queryKey: trashQueryKey });
+  broadcastResync();
+
+  return result.data.purged;
+};
+
+const applyTrashChanges = (rows: TodoItem[], purgedIds: number[]) => {
+  if (!trashCollection.isReady()) {
+    return;
+  }
+
+  const upserts = rows.filter((todo) => todo.deletedAt !== null);
+  const removals = new Set(
+    [...rows.filter((todo) => todo.deletedAt === null).map((todo) => todo.id), ...purgedIds].filter(
+      (id) => trashCollection.has(id),
+    ),
+  );
+
+  if (upserts.length === 0 && removals.size === 0) {
+    return;
+  }
+
+  trashCollection.utils.writeBatch(() => {
+    if (upserts.length > 0) {
+      trashCollection.utils.writeUpsert(upserts);
+    }
+    if (removals.size > 0) {
+      trashCollection.utils.writeDelete([...removals]);
+    }
+  });
+};
+
+// Changes pushed by the server or another tab are applied in place instead of refetching lists.
+const applyTodoEvent = (event: TodoEvent) => {
+  const { valid, invalid } = validateTodos(event.todos);
+  reportInvalidTodos(invalid);
+
+  for (const list of todoLists.values()) {
+    list.applyChanges(valid, event.ids);
+  }
+
+  applyTrashChanges(valid, event.type === "purged" ? event.ids : []);
+  void queryClient.invalidateQueries({ queryKey: todoListsQueryKey });
+};
+
+/**
+ * Puts rows the server returned from a request made outside the collections, such as a checklist
+ * change, into every list and the other open tabs.
+ */
+export const applySavedTodos = (type: "created" | "updated", todos: TodoItem[]) => {
+  applyTodoEvent({ type, todos, ids: [] });
+  shareTodoChange(type, todos);
+};
+
+startTodoSync({
+  url: `${apiBaseUrl}/api/todos/events`,
+  onEvent: applyTodoEvent,
+  onResync: () => {
+    void queryClient.invalidateQueries({ queryKey: todosQueryKey });
+  },
+});
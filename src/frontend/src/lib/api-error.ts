@@ -0,0 +1,143 @@
+import type { AnyFieldApi, AnyFormApi } from "@tanstack/react-form";
+import { queue as toastQueue } from "@/components/ui/Toast";
+
+/** A request the API answered with an error, carrying what the server said about it. */
+export class ApiError extends Error {
+  readonly status: number | null;
+  /** The server's trace id, which users can quote when reporting the failure. */
+  readonly requestId: string | null;
+  /** Validation messages keyed by the camelCase name of the field they belong to. */
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number | null;
+      requestId?: string | null;
+      fieldErrors?: Record<string, string[]>;
+    } = {},
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = options.status ?? null;
+    this.requestId = options.requestId ?? null;
+    this.fieldErrors = options.fieldErrors ?? {};
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readString = (body: Record<string, unknown>, key: string) => {
+  const value = body[key];
+  return typeof value === "string" && value.trim() ? value : null;
+};
+
+const readFieldErrors = (body: Record<string, unknown>) => {
+  const fieldErrors: Record<string, string[]> = {};
+
+  if (isRecord(body.errors)) {
+    for (const [field, messages] of Object.entries(body.errors)) {
+      const list = (Array.isArray(messages) ? messages : [messages]).filter(
+        (message): message is string => typeof message === "string",
+      );
+
+      if (list.length > 0) {
+        fieldErrors[field] = list;
+      }
+    }
+  }
+
+  return fieldErrors;
+};
+
+/**
+ * Builds an `ApiError` from a failed hey-api result. Understands problem details, validation
+ * problems and the older `{ error }` payload; anything else falls back to `fallbackMessage`.
+ */
+export const toApiError = (
+  result: { error?: unknown; response?: Response },
+  fallbackMessage: string,
+) => {
+  const body = isRecord(result.error) ? result.error : {};
+  const fieldErrors = readFieldErrors(body);
+  const firstFieldError = Object.values(fieldErrors)[0]?.[0] ?? null;
+
+  const message =
+    readString(body, "detail") ??
+    readString(body, "error") ??
+    firstFieldError ??
+    (typeof result.error === "string" && result.error.trim() ? result.error : null) ??
+    fallbackMessage;
+
+  return new ApiError(message, {
+    status: result.response?.status ?? null,
+    requestId: readString(body, "traceId"),
+    fieldErrors,
+  });
+};
+
+export const getErrorMessage = (err: unknown, fallbackMessage: string) =>
+  err instanceof Error ? err.message : fallbackMessage;
+
+/**
+ * Shows a failure as a toast, with the request id when the server sent one. With a `title`, the
+ * error message moves into the description.
+ */
+export const showErrorToast = (
+  err: unknown,
+  fallbackMessage: string,
+  options: {
+    title?: string;
+    action?: { label: string; onAction: () => void | Promise<void> };
+  } = {},
+) => {
+  const message = getErrorMessage(err, fallbackMessage);
+  const requestId =
+    err instanceof ApiError && err.requestId ? `Request ID: ${err.requestId}` : undefined;
+
+  toastQueue.add({
+    title: options.title ?? message,
+    description: options.title ? [message, requestId].filter(Boolean).join(" ") : requestId,
+    action: options.action,
+  });
+};
+
+/**
+ * Puts the server's validation messages on the matching form fields. Returns whether any field
+ * took an error, so callers can skip a separate message when the form already explains it.
+ */
+export const setServerFieldErrors = (form: AnyFormApi, err: unknown) => {
+  if (!(err instanceof ApiError)) {
+    return false;
+  }
+
+  let applied = false;
+
+  for (const [field, messages] of Object.entries(err.fieldErrors)) {
+    if (!(field in form.state.values)) {
+      continue;
+    }
+
+    form.setFieldMeta(field, (meta) => ({
+      ...meta,
+      isTouched: true,
+      errorMap: { ...meta.errorMap, onServer: messages.join(" ") },
+    }));
+    applied = true;
+  }
+
+  return applied;
+};
+
+/** Form listener that clears a field's server error as soon as the user edits it. */
+export const clearServerFieldError = ({ fieldApi }: { fieldApi: AnyFieldApi }) => {
+  if (fieldApi.state.meta.errorMap.onServer === undefined) {
+    return;
+  }
+
+  fieldApi.setMeta((meta) => ({
+    ...meta,
+    errorMap: { ...meta.errorMap, onServer: undefined },
+  }));
+};
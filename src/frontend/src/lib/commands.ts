@@ -0,0 +1,88 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+/** An action the command palette can run. */
+export type Command = {
+  id: string;
+  label: string;
+  /** Heading the command is listed under. */
+  section: string;
+  /** Extra words the palette search matches, such as synonyms. */
+  keywords?: string[];
+  run: () => void | Promise<void>;
+};
+
+const registrations = new Map<symbol, Command[]>();
+let commands: Command[] = [];
+const commandListeners = new Set<() => void>();
+
+const publish = () => {
+  commands = Array.from(registrations.values()).flat();
+  commandListeners.forEach((listener) => listener());
+};
+
+const subscribeToCommands = (listener: () => void) => {
+  commandListeners.add(listener);
+  return () => {
+    commandListeners.delete(listener);
+  };
+};
+
+/** Adds commands to the palette and returns a function that removes them again. */
+export const registerCommands = (nextCommands: Command[]) => {
+  const registration = Symbol("commands");
+  registrations.set(registration, nextCommands);
+  publish();
+
+  return () => {
+    registrations.delete(registration);
+    publish();
+  };
+};
+
+export const useCommands = () => useSyncExternalStore(subscribeToCommands, () => commands);
+
+/**
+ * Offers `commands` in the palette while the calling component is mounted, so routes can add
+ * commands that only make sense on them. Memoize the list to avoid re-registering every render.
+ */
+export const useRegisterCommands = (nextCommands: Command[]) => {
+  useEffect(() => registerCommands(nextCommands), [nextCommands]);
+};
+
+/**
+ * Scores how well `query` matches `text` when its characters appear in order, favoring matches
+ * at word starts and runs of consecutive characters. Returns null when they don't all appear.
+ */
+export const fuzzyScore = (query: string, text: string) => {
+  const needle = query.trim().toLowerCase();
+  const haystack = text.toLowerCase();
+
+  if (!needle) {
+    return 0;
+  }
+
+  let score = 0;
+  let position = 0;
+  let previousMatch = -2;
+
+  for (const character of needle) {
+    const index = haystack.indexOf(character, position);
+    if (index === -1) {
+      return null;
+    }
+
+    score += 1;
+    if (index === previousMatch + 1) {
+      score += 2;
+    }
+    if (index === 0 || /[\s\-_/]/.test(haystack[index - 1])) {
+      score += 3;
+    }
+
+    previousMatch = index;
+    position = index + 1;
+  }
+
+  // Between equal matches, the shorter text is the closer one.
+  return score - haystack.length / 1000;
+};
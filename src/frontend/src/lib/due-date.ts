@@ -0,0 +1,176 @@
+import { useSyncExternalStore } from "react";
+import {
+  DateFormatter,
+  fromDate,
+  getLocalTimeZone,
+  now,
+  parseDate,
+  parseTime,
+  toCalendarDate,
+  toCalendarDateTime,
+  toTime,
+  toZoned,
+  type ZonedDateTime,
+} from "@internationalized/date";
+import type { TodoItem } from "@/db/todos";
+
+export type TodoDue = Pick<TodoItem, "dueDate" | "isAllDay">;
+
+const storageKey = "todo-time-zone";
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const readTimeZone = () => {
+  const stored = localStorage.getItem(storageKey);
+  return stored && isTimeZone(stored) ? stored : null;
+};
+
+// null follows the device's time zone, so travelling users see their local times by default.
+let timeZoneSetting: string | null = typeof localStorage === "undefined" ? null : readTimeZone();
+const timeZoneListeners = new Set<() => void>();
+
+const subscribeToTimeZone = (listener: () => void) => {
+  timeZoneListeners.add(listener);
+  return () => {
+    timeZoneListeners.delete(listener);
+  };
+};
+
+export const getTimeZone = () => timeZoneSetting ?? getLocalTimeZone();
+
+/** The zone due times are entered and shown in. */
+export const useTimeZone = () => useSyncExternalStore(subscribeToTimeZone, getTimeZone);
+
+/** The stored setting, where `null` means "use the device's time zone". */
+export const useTimeZoneSetting = () =>
+  useSyncExternalStore(subscribeToTimeZone, () => timeZoneSetting);
+
+export const setTimeZone = (value: string | null) => {
+  timeZoneSetting = value && isTimeZone(value) ? value : null;
+
+  if (timeZoneSetting) {
+    localStorage.setItem(storageKey, timeZoneSetting);
+  } else {
+    localStorage.removeItem(storageKey);
+  }
+
+  timeZoneListeners.forEach((listener) => listener());
+};
+
+/** Every zone the browser knows, falling back to the current one where it can't list them. */
+export const getTimeZoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  return intl.supportedValuesOf?.("timeZone") ?? [getTimeZone()];
+};
+
+// All-day dues are stored as midnight UTC of their date, so the date part is the calendar date.
+const toAllDayDate = (dueDate: string) => parseDate(dueDate.slice(0, 10));
+
+const toZonedDue = (dueDate: string, timeZone: string) => fromDate(new Date(dueDate), timeZone);
+
+/** Splits a due date into `YYYY-MM-DD` and `HH:mm` form values; the time is empty for all-day. */
+export const toDueFields = (todo: TodoDue, timeZone: string) => {
+  if (!todo.dueDate) {
+    return { dueDate: "", dueTime: "" };
+  }
+
+  if (todo.isAllDay) {
+    return { dueDate: toAllDayDate(todo.dueDate).toString(), dueTime: "" };
+  }
+
+  const zoned = toZonedDue(todo.dueDate, timeZone);
+  return {
+    dueDate: toCalendarDate(zoned).toString(),
+    dueTime: toTime(zoned).toString().slice(0, 5),
+  };
+};
+
+/** Turns `YYYY-MM-DD` and optional `HH:mm` form values back into the API's due fields. */
+export const fromDueFields = (dueDate: string, dueTime: string, timeZone: string): TodoDue => {
+  if (!dueDate) {
+    return { dueDate: null, isAllDay: false };
+  }
+
+  const date = parseDate(dueDate);
+  if (!dueTime) {
+    return { dueDate: `${date.toString()}T00:00:00.000Z`, isAllDay: true };
+  }
+
+  const zoned = toZoned(toCalendarDateTime(date, parseTime(dueTime)), timeZone);
+  return { dueDate: zoned.toDate().toISOString(), isAllDay: false };
+};
+
+export const dueSoonDays = 3;
+
+/**
+ * Whether a due date has passed or falls within the next few days. All-day dues stay current
+ * until their day is over; timed dues are overdue as soon as their moment passes.
+ */
+export const getDueStatus = (
+  todo: TodoDue,
+  timeZone: string,
+  at: ZonedDateTime = now(timeZone),
+) => {
+  if (!todo.dueDate || Number.isNaN(Date.parse(todo.dueDate))) {
+    return null;
+  }
+
+  const today = toCalendarDate(at);
+  const soonLimit = today.add({ days: dueSoonDays });
+
+  if (todo.isAllDay) {
+    const date = toAllDayDate(todo.dueDate);
+    return {
+      isOverdue: date.compare(today) < 0,
+      isDueSoon: date.compare(today) >= 0 && date.compare(soonLimit) <= 0,
+    };
+  }
+
+  const due = toZonedDue(todo.dueDate, timeZone);
+  return {
+    isOverdue: due.compare(at) < 0,
+    isDueSoon: due.compare(at) >= 0 && toCalendarDate(due).compare(soonLimit) <= 0,
+  };
+};
+
+const formatters = new Map<string, DateFormatter>();
+
+const getFormatter = (options: Intl.DateTimeFormatOptions) => {
+  const key = JSON.stringify(options);
+  let formatter = formatters.get(key);
+
+  if (!formatter) {
+    formatter = new DateFormatter("en-US", options);
+    formatters.set(key, formatter);
+  }
+
+  return formatter;
+};
+
+/** Formats a due date as "Oct 20", or "Oct 20, 3:00 PM" in `timeZone` when it has a time. */
+export const formatDue = (todo: TodoDue, timeZone: string) => {
+  if (!todo.dueDate) {
+    return "";
+  }
+
+  if (todo.isAllDay) {
+    return getFormatter({ month: "short", day: "numeric", timeZone: "UTC" }).format(
+      toAllDayDate(todo.dueDate).toDate("UTC"),
+    );
+  }
+
+  return getFormatter({
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone,
+  }).format(new Date(todo.dueDate));
+};
@@ -3,6 +3,10 @@
 import { createFormHook, type FormOptions } from "@tanstack/react-form";
 import { fieldContext, formContext } from "@/lib/form-context";
 import { AppTextField } from "@/components/form/AppTextField";
+import { AppDatePicker } from "@/components/form/AppDatePicker";
+import { AppTimeField } from "@/components/form/AppTimeField";
+import { AppSelect } from "@/components/form/AppSelect";
+import { AppTagField } from "@/components/form/AppTagField";
 import { AppCheckbox } from "@/components/form/AppCheckbox";
 import { AppSubmitButton } from "@/components/form/AppSubmitButton";
 
@@ -36,6 +40,10 @@ export const { useAppForm, withForm } = createFormHook({
   formContext,
   fieldComponents: {
     AppTextField,
+    AppDatePicker,
+    AppTimeField,
+    AppSelect,
+    AppTagField,
     AppCheckbox,
   },
   formComponents: {
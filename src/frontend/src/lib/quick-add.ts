@@ -0,0 +1,323 @@
+import {
+  CalendarDate,
+  DateFormatter,
+  fromDate,
+  getDayOfWeek,
+  getLocalTimeZone,
+  toCalendarDate,
+  type ZonedDateTime,
+} from "@internationalized/date";
+
+export type QuickAddPriority = "urgent" | "high" | "medium" | "low";
+
+export type QuickAddTokenKind = "date" | "time" | "priority" | "tag";
+
+/** A phrase recognised in the quick-add text, with its position so it can be cut from the title. */
+export type QuickAddToken = {
+  kind: QuickAddTokenKind;
+  text: string;
+  start: number;
+  end: number;
+  label: string;
+};
+
+export type QuickAddResult = {
+  /** The input without the recognised phrases. */
+  title: string;
+  /** `YYYY-MM-DD`, set whenever a date or a time was recognised. */
+  dueDate: string | null;
+  /** `HH:mm`, or null for an all-day due. */
+  dueTime: string | null;
+  priority: QuickAddPriority | null;
+  tags: string[];
+  tokens: QuickAddToken[];
+};
+
+export type QuickAddOptions = {
+  now?: Date;
+  /** The zone "today" and times are read in; defaults to the device's. */
+  timeZone?: string;
+  /** Kinds to recognise; everything else stays in the title. */
+  kinds?: readonly QuickAddTokenKind[];
+  /** Keys from `getQuickAddTokenKey` the user chose to keep as plain text. */
+  ignored?: ReadonlySet<string>;
+};
+
+type Match = QuickAddToken & {
+  day?: CalendarDate;
+  minutes?: number;
+  priority?: QuickAddPriority;
+  tag?: string;
+};
+
+const weekdays = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const months = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const weekdayPattern =
+  "(sun(?:day)?|mon(?:day)?|tue(?:s(?:day)?)?|wed(?:nesday)?|thu(?:r(?:s(?:day)?)?)?|fri(?:day)?|sat(?:urday)?)";
+// Short names are also ordinary words ("sun", "sat"), so alone they only count after "on" or "next".
+const fullWeekdayPattern = "(sunday|monday|tuesday|wednesday|thursday|friday|saturday)";
+const monthPattern =
+  "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+const priorityAliases: Record<string, QuickAddPriority> = {
+  high: "high",
+  hi: "high",
+  urgent: "urgent",
+  asap: "urgent",
+  "1": "high",
+  medium: "medium",
+  med: "medium",
+  "2": "medium",
+  low: "low",
+  lo: "low",
+  "3": "low",
+};
+
+const priorityLabels: Record<QuickAddPriority, string> = {
+  urgent: "Urgent",
+  high: "High priority",
+  medium: "Medium priority",
+  low: "Low priority",
+};
+
+const dayFormatter = new DateFormatter("en-US", {
+  weekday: "short",
+  month: "short",
+  day: "numeric",
+  timeZone: "UTC",
+});
+
+const timeFormatter = new Intl.DateTimeFormat("en-US", {
+  hour: "numeric",
+  minute: "2-digit",
+});
+
+// A weekday on its own means its next occurrence, never today.
+const nextWeekday = (today: CalendarDate, name: string) => {
+  const target = weekdays.indexOf(name.slice(0, 3).toLowerCase());
+  return today.add({ days: ((target - getDayOfWeek(today, "en-US") + 6) % 7) + 1 });
+};
+
+// CalendarDate clamps impossible days such as Feb 30, so check the day survived.
+const toValidDate = (year: number, month: number, day: number) => {
+  const date = new CalendarDate(year, month, day);
+  return date.month === month && date.day === day ? date : null;
+};
+
+const parseDayPhrase = (match: RegExpExecArray, today: CalendarDate): CalendarDate | null => {
+  const phrase = match[0].toLowerCase().replace(/^on\s+/, "");
+
+  if (phrase === "today" || phrase === "tonight") {
+    return today;
+  }
+  if (phrase === "tomorrow" || phrase === "tmrw" || phrase === "tmr") {
+    return today.add({ days: 1 });
+  }
+  if (phrase === "next week") {
+    return today.add({ weeks: 1 });
+  }
+  if (phrase === "next month") {
+    return today.add({ months: 1 });
+  }
+
+  const relative = /^in\s+(\d{1,3})\s+(day|week|month)s?$/.exec(phrase);
+  if (relative) {
+    const amount = Number(relative[1]);
+    return today.add({ [`${relative[2]}s`]: amount });
+  }
+
+  const weekday = new RegExp(`^(?:next\\s+)?${weekdayPattern}$`).exec(phrase);
+  if (weekday) {
+    return nextWeekday(today, weekday[1]);
+  }
+
+  const monthDay = new RegExp(`^${monthPattern}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?$`).exec(phrase);
+  if (monthDay) {
+    const month = months.indexOf(monthDay[1].slice(0, 3)) + 1;
+    const day = Number(monthDay[2]);
+    const date = toValidDate(today.year, month, day);
+    // A day that already passed this year means next year's.
+    return date && date.compare(today) < 0 ? toValidDate(today.year + 1, month, day) : date;
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(phrase);
+  if (iso) {
+    return toValidDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  return null;
+};
+
+const parseTimePhrase = (match: RegExpExecArray): number | null => {
+  const phrase = match[0].toLowerCase().replace(/^at\s+/, "");
+
+  if (phrase === "noon") {
+    return 12 * 60;
+  }
+  if (phrase === "midnight") {
+    return 0;
+  }
+
+  const time = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(phrase);
+  if (!time) {
+    return null;
+  }
+
+  let hours = Number(time[1]);
+  const minutes = Number(time[2] ?? 0);
+  const meridiem = time[3];
+
+  if (minutes > 59 || (meridiem ? hours < 1 || hours > 12 : hours > 23)) {
+    return null;
+  }
+  if (meridiem) {
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+
+  return hours * 60 + minutes;
+};
+
+// Phrases only count as whole words, so "#" or "!" in the middle of a word stays text.
+const wordStart = "(?<![\\p{L}\\p{N}])";
+const wordEnd = "(?![\\p{L}\\p{N}])";
+
+const patterns: Array<{
+  kind: QuickAddTokenKind;
+  pattern: RegExp;
+  read: (match: RegExpExecArray, today: CalendarDate) => Partial<Match> | null;
+}> = [
+  {
+    kind: "tag",
+    pattern: /(?<!\S)#([\p{L}\p{N}_-]+)/gu,
+    read: (match) => ({ tag: match[1].toLowerCase(), label: `#${match[1].toLowerCase()}` }),
+  },
+  {
+    kind: "priority",
+    pattern: /(?<!\S)!(urgent|asap|high|hi|medium|med|low|lo|[123])(?!\S)/giu,
+    read: (match) => {
+      const priority = priorityAliases[match[1].toLowerCase()];
+      return { priority, label: priorityLabels[priority] };
+    },
+  },
+  {
+    kind: "date",
+    pattern: new RegExp(
+      `${wordStart}(?:on\\s+)?(?:today|tonight|tomorrow|tmrw|tmr|next\\s+(?:week|month)|in\\s+\\d{1,3}\\s+(?:days?|weeks?|months?)|(?:next\\s+)?${fullWeekdayPattern}|(?:(?<=${wordStart}on\\s+)|next\\s+)${weekdayPattern}|${monthPattern}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?|\\d{4}-\\d{2}-\\d{2})${wordEnd}`,
+      "giu",
+    ),
+    read: (match, today) => {
+      const day = parseDayPhrase(match, today);
+      return day ? { day, label: dayFormatter.format(day.toDate("UTC")) } : null;
+    },
+  },
+  {
+    kind: "time",
+    pattern: new RegExp(
+      `${wordStart}(?:at\\s+)?(?:noon|midnight|\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2})${wordEnd}`,
+      "giu",
+    ),
+    read: (match) => {
+      const minutes = parseTimePhrase(match);
+      if (minutes === null) {
+        return null;
+      }
+
+      const label = timeFormatter.format(
+        new Date(2000, 0, 1, Math.floor(minutes / 60), minutes % 60),
+      );
+      return { minutes, label };
+    },
+  },
+];
+
+/** Identifies a recognised phrase across edits, so undoing it sticks while the user keeps typing. */
+export const getQuickAddTokenKey = (token: QuickAddToken) =>
+  `${token.kind}:${token.text.toLowerCase()}`;
+
+/**
+ * Reads due dates, times, priorities and tags out of a quick-add title such as
+ * "Call Sam next Fri 3pm !high #work". Only the first date, time and priority count; every tag does.
+ */
+export const parseQuickAdd = (input: string, options: QuickAddOptions = {}): QuickAddResult => {
+  const current: ZonedDateTime = fromDate(
+    options.now ?? new Date(),
+    options.timeZone ?? getLocalTimeZone(),
+  );
+  const today = toCalendarDate(current);
+  const kinds = new Set(options.kinds ?? patterns.map((entry) => entry.kind));
+  const ignored = options.ignored ?? new Set<string>();
+
+  const matches: Match[] = [];
+  const overlaps = (start: number, end: number) =>
+    matches.some((match) => start < match.end && end > match.start);
+
+  for (const { kind, pattern, read } of patterns) {
+    if (!kinds.has(kind)) {
+      continue;
+    }
+
+    for (const match of input.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const text = match[0];
+      const base = { kind, text, start, end, label: text };
+
+      if (overlaps(start, end) || ignored.has(getQuickAddTokenKey(base))) {
+        continue;
+      }
+      if (kind !== "tag" && matches.some((existing) => existing.kind === kind)) {
+        continue;
+      }
+
+      const details = read(match, today);
+      if (details) {
+        matches.push({ ...base, ...details });
+      }
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start);
+
+  let title = "";
+  let position = 0;
+  for (const match of matches) {
+    title += `${input.slice(position, match.start)} `;
+    position = match.end;
+  }
+  title += input.slice(position);
+
+  const dateMatch = matches.find((match) => match.kind === "date");
+  const timeMatch = matches.find((match) => match.kind === "time");
+
+  let dueDay = dateMatch?.day ?? null;
+  let dueTime: string | null = null;
+  if (timeMatch?.minutes !== undefined) {
+    const minutes = timeMatch.minutes;
+    dueTime = `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+    // A time on its own means the next time the clock shows it.
+    if (!dueDay) {
+      dueDay = minutes > current.hour * 60 + current.minute ? today : today.add({ days: 1 });
+    }
+  }
+
+  const tokens = matches.map(({ kind, text, start, end, label }) => ({
+    kind,
+    text,
+    start,
+    end,
+    label,
+  }));
+
+  return {
+    title: title.replace(/\s+/g, " ").trim(),
+    dueDate: dueDay ? dueDay.toString() : null,
+    dueTime,
+    priority: matches.find((match) => match.kind === "priority")?.priority ?? null,
+    tags: Array.from(
+      new Set(matches.flatMap((match) => (match.tag !== undefined ? [match.tag] : []))),
+    ),
+    tokens,
+  };
+};
@@ -0,0 +1,156 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+
+export type ShortcutAction =
+  | "next"
+  | "previous"
+  | "toggle"
+  | "edit"
+  | "delete"
+  | "compose"
+  | "search"
+  | "help";
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const shortcutActions: Array<{ action: ShortcutAction; label: string }> = [
+  { action: "next", label: "Focus next task" },
+  { action: "previous", label: "Focus previous task" },
+  { action: "toggle", label: "Toggle complete" },
+  { action: "edit", label: "Edit task" },
+  { action: "delete", label: "Move task to trash" },
+  { action: "compose", label: "Add a task" },
+  { action: "search", label: "Search" },
+  { action: "help", label: "Show keyboard shortcuts" },
+];
+
+export const defaultShortcutBindings: ShortcutBindings = {
+  next: "j",
+  previous: "k",
+  toggle: "x",
+  edit: "e",
+  delete: "#",
+  compose: "n",
+  search: "/",
+  help: "?",
+};
+
+const storageKey = "todo-shortcuts";
+
+const isShortcutAction = (value: string): value is ShortcutAction =>
+  shortcutActions.some((entry) => entry.action === value);
+
+/** Only keys that type a single visible character can be bound, so arrows and Tab keep working. */
+export const isBindableKey = (key: string) => key.length === 1 && key !== " ";
+
+// Only the rebound keys are stored, so changed defaults still reach everyone else.
+const readBindings = (): ShortcutBindings => {
+  const bindings = { ...defaultShortcutBindings };
+
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(storageKey) ?? "{}");
+
+    if (typeof stored === "object" && stored !== null) {
+      for (const [action, key] of Object.entries(stored)) {
+        if (isShortcutAction(action) && typeof key === "string" && isBindableKey(key)) {
+          bindings[action] = key;
+        }
+      }
+    }
+  } catch {
+    // Unreadable overrides fall back to the defaults.
+  }
+
+  return bindings;
+};
+
+let bindings: ShortcutBindings =
+  typeof localStorage === "undefined" ? defaultShortcutBindings : readBindings();
+const bindingListeners = new Set<() => void>();
+
+const setBindings = (nextBindings: ShortcutBindings) => {
+  bindings = nextBindings;
+
+  const overrides = Object.fromEntries(
+    Object.entries(nextBindings).filter(
+      ([action, key]) => defaultShortcutBindings[action as ShortcutAction] !== key,
+    ),
+  );
+  localStorage.setItem(storageKey, JSON.stringify(overrides));
+
+  bindingListeners.forEach((listener) => listener());
+};
+
+const subscribeToBindings = (listener: () => void) => {
+  bindingListeners.add(listener);
+  return () => {
+    bindingListeners.delete(listener);
+  };
+};
+
+export const useShortcutBindings = () => useSyncExternalStore(subscribeToBindings, () => bindings);
+
+/** Binds `key` to `action`. An action that already used the key takes over the old one instead. */
+export const rebindShortcut = (action: ShortcutAction, key: string) => {
+  const nextBindings = { ...bindings, [action]: key };
+  const previousOwner = shortcutActions.find(
+    (entry) => entry.action !== action && bindings[entry.action] === key,
+  );
+
+  if (previousOwner) {
+    nextBindings[previousOwner.action] = bindings[action];
+  }
+
+  setBindings(nextBindings);
+};
+
+export const resetShortcuts = () => {
+  setBindings({ ...defaultShortcutBindings });
+};
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || target.closest("input, textarea, select") !== null);
+
+// Dialogs own the keyboard while they are open.
+const isInsideDialog = (target: EventTarget | null) =>
+  target instanceof Element && target.closest('[role="dialog"], [role="alertdialog"]') !== null;
+
+/**
+ * Runs the handler bound to each key pressed on the page. Keys typed into fields or dialogs, and
+ * keys pressed with Ctrl, Alt or Cmd, are left alone.
+ */
+export const useShortcuts = (
+  handlers: Partial<Record<ShortcutAction, (event: KeyboardEvent) => void>>,
+) => {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        event.defaultPrevented ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        isTypingTarget(event.target) ||
+        isInsideDialog(event.target)
+      ) {
+        return;
+      }
+
+      const match = shortcutActions.find(({ action }) => bindings[action] === event.key);
+      const handler = match && handlersRef.current[match.action];
+
+      if (handler) {
+        event.preventDefault();
+        handler(event);
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+};
@@ -0,0 +1,9 @@
+// Mirrors the server's rules, so tags read back exactly as the user sees them before saving.
+export const tagMaxLength = 40;
+export const maxTagsPerTodo = 20;
+
+/** Lowercases a tag and drops a leading "#", or returns "" when nothing is left. */
+export const normalizeTag = (value: string) => value.trim().replace(/^#+/, "").trim().toLowerCase();
+
+export const normalizeTags = (values: readonly string[]) =>
+  Array.from(new Set(values.map(normalizeTag).filter(Boolean)));
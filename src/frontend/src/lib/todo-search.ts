@@ -0,0 +1,47 @@
+import { defaultTodoSort, isTodoSort, type TodoSort } from "@/db/todo-sort";
+import { normalizeTag, tagMaxLength } from "@/lib/tags";
+
+export type TodoStatusSearch = "open" | "done";
+
+/** Search params shared by the todo list and every route nested under it. */
+export type TodoSearch = {
+  status?: TodoStatusSearch;
+  sort?: TodoSort;
+  q?: string;
+  tag?: string;
+};
+
+const maxQueryLength = 80;
+
+/**
+ * Validates raw search params into a {@link TodoSearch}, dropping unknown values and defaults so
+ * equivalent URLs produce the same object.
+ */
+export function validateTodoSearch(search: Record<string, unknown>): TodoSearch {
+  const next: TodoSearch = {};
+
+  const status = search.status;
+  if (status === "open" || status === "done") {
+    next.status = status;
+  }
+
+  const sort = search.sort;
+  if (isTodoSort(sort) && sort !== defaultTodoSort) {
+    next.sort = sort;
+  }
+
+  const q = search.q;
+  if (typeof q === "string") {
+    const trimmed = q.trim();
+    if (trimmed) {
+      next.q = trimmed.slice(0, maxQueryLength);
+    }
+  }
+
+  const tag = typeof search.tag === "string" ? normalizeTag(search.tag) : "";
+  if (tag && tag.length <= tagMaxLength) {
+    next.tag = tag;
+  }
+
+  return next;
+}
@@ -9,10 +9,18 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as TrashRouteImport } from './routes/trash'
 import { Route as AppRouteImport } from './routes/_app'
 import { Route as AppIndexRouteImport } from './routes/_app/index'
 import { Route as AppTodosIdRouteImport } from './routes/_app/todos.$id'
+import { Route as AppListsListIdRouteImport } from './routes/_app/lists.$listId'
+import { Route as AppListsListIdTodosIdRouteImport } from './routes/_app/lists.$listId.todos.$id'
 
+const TrashRoute = TrashRouteImport.update({
+  id: '/trash',
+  path: '/trash',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AppRoute = AppRouteImport.update({
   id: '/_app',
   getParentRoute: () => rootRouteImport,
@@ -27,35 +35,74 @@ const AppTodosIdRoute = AppTodosIdRouteImport.update({
   path: '/todos/$id',
   getParentRoute: () => AppRoute,
 } as any)
+const AppListsListIdRoute = AppListsListIdRouteImport.update({
+  id: '/lists/$listId',
+  path: '/lists/$listId',
+  getParentRoute: () => AppRoute,
+} as any)
+const AppListsListIdTodosIdRoute = AppListsListIdTodosIdRouteImport.update({
+  id: '/todos/$id',
+  path: '/todos/$id',
+  getParentRoute: () => AppListsListIdRoute,
+} as any)
 
 export interface FileRoutesByFullPath {
+  '/trash': typeof TrashRoute
   '/': typeof AppIndexRoute
+  '/lists/$listId': typeof AppListsListIdRouteWithChildren
   '/todos/$id': typeof AppTodosIdRoute
+  '/lists/$listId/todos/$id': typeof AppListsListIdTodosIdRoute
 }
 export interface FileRoutesByTo {
+  '/trash': typeof TrashRoute
   '/': typeof AppIndexRoute
+  '/lists/$listId': typeof AppListsListIdRouteWithChildren
   '/todos/$id': typeof AppTodosIdRoute
+  '/lists/$listId/todos/$id': typeof AppListsListIdTodosIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/_app': typeof AppRouteWithChildren
+  '/trash': typeof TrashRoute
   '/_app/': typeof AppIndexRoute
+  '/_app/lists/$listId': typeof AppListsListIdRouteWithChildren
   '/_app/todos/$id': typeof AppTodosIdRoute
+  '/_app/lists/$listId/todos/$id': typeof AppListsListIdTodosIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/todos/$id'
+  fullPaths:
+    | '/trash'
+    | '/'
+    | '/lists/$listId'
+    | '/todos/$id'
+    | '/lists/$listId/todos/$id'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/todos/$id'
-  id: '__root__' | '/_app' | '/_app/' | '/_app/todos/$id'
+  to: '/trash' | '/' | '/lists/$listId' | '/todos/$id' | '/lists/$listId/todos/$id'
+  id:
+    | '__root__'
+    | '/_app'
+    | '/trash'
+    | '/_app/'
+    | '/_app/lists/$listId'
+    | '/_app/todos/$id'
+    | '/_app/lists/$listId/todos/$id'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   AppRoute: typeof AppRouteWithChildren
+  TrashRoute: typeof TrashRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/trash': {
+      id: '/trash'
+      path: '/trash'
+      fullPath: '/trash'
+      preLoaderRoute: typeof TrashRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/_app': {
       id: '/_app'
       path: ''
@@ -77,16 +124,44 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AppTodosIdRouteImport
       parentRoute: typeof AppRoute
     }
+    '/_app/lists/$listId': {
+      id: '/_app/lists/$listId'
+      path: '/lists/$listId'
+      fullPath: '/lists/$listId'
+      preLoaderRoute: typeof AppListsListIdRouteImport
+      parentRoute: typeof AppRoute
+    }
+    '/_app/lists/$listId/todos/$id': {
+      id: '/_app/lists/$listId/todos/$id'
+      path: '/todos/$id'
+      fullPath: '/lists/$listId/todos/$id'
+      preLoaderRoute: typeof AppListsListIdTodosIdRouteImport
+      parentRoute: typeof AppListsListIdRoute
+    }
   }
 }
 
+interface AppListsListIdRouteChildren {
+  AppListsListIdTodosIdRoute: typeof AppListsListIdTodosIdRoute
+}
+
+const AppListsListIdRouteChildren: AppListsListIdRouteChildren = {
+  AppListsListIdTodosIdRoute: AppListsListIdTodosIdRoute,
+}
+
+const AppListsListIdRouteWithChildren = AppListsListIdRoute._addFileChildren(
+  AppListsListIdRouteChildren,
+)
+
 interface AppRouteChildren {
   AppIndexRoute: typeof AppIndexRoute
+  AppListsListIdRoute: typeof AppListsListIdRouteWithChildren
   AppTodosIdRoute: typeof AppTodosIdRoute
 }
 
 const AppRouteChildren: AppRouteChildren = {
   AppIndexRoute: AppIndexRoute,
+  AppListsListIdRoute: AppListsListIdRouteWithChildren,
   AppTodosIdRoute: AppTodosIdRoute,
 }
 
@@ -94,6 +169,7 @@ const AppRouteWithChildren = AppRoute._addFileChildren(AppRouteChildren)
 
 const rootRouteChildren: RootRouteChildren = {
   AppRoute: AppRouteWithChildren,
+  TrashRoute: TrashRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -7,6 +7,7 @@ import {
   type ToOptions,
 } from "@tanstack/react-router";
 import { TanStackRouterDevtools } from "@tanstack/react-router-devtools";
+import { TodoCommandPalette } from "@/components/todos";
 
 declare module "react-aria-components" {
   interface RouterConfig {
@@ -57,6 +58,7 @@ function RootLayout() {
       }}
     >
       <Outlet />
+      <TodoCommandPalette />
       {import.meta.env.DEV ? (
         <TanStackRouterDevtools position="bottom-right" />
       ) : null}
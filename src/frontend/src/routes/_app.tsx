@@ -1,39 +1,9 @@
 import { createFileRoute, Outlet } from "@tanstack/react-router";
 import App from "../App";
-
-type StatusSearch = "open" | "done";
-type SortSearch = "due";
-
-type TodoSearch = {
-  status?: StatusSearch;
-  sort?: SortSearch;
-  q?: string;
-};
+import { validateTodoSearch } from "../lib/todo-search";
 
 export const Route = createFileRoute("/_app")({
-  validateSearch: (search: Record<string, unknown>): TodoSearch => {
-    const next: TodoSearch = {};
-
-    const status = search.status;
-    if (status === "open" || status === "done") {
-      next.status = status;
-    }
-
-    const sort = search.sort;
-    if (sort === "due") {
-      next.sort = sort;
-    }
-
-    const q = search.q;
-    if (typeof q === "string") {
-      const trimmed = q.trim();
-      if (trimmed) {
-        next.q = trimmed.slice(0, 80);
-      }
-    }
-
-    return next;
-  },
+  validateSearch: validateTodoSearch,
   component: AppLayout,
 });
 
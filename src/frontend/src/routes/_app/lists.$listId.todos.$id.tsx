@@ -0,0 +1,20 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { TodoEditorModal } from "@/components/todos";
+import { getTodoList } from "@/db/todos";
+
+export const Route = createFileRoute("/_app/lists/$listId/todos/$id")({
+  component: ListTodoEditorRoute,
+});
+
+function ListTodoEditorRoute() {
+  const { id, listId } = Route.useParams();
+  const search = Route.useSearch();
+
+  return (
+    <TodoEditorModal
+      id={id}
+      listId={listId}
+      collection={getTodoList(search, Number(listId)).collection}
+    />
+  );
+}
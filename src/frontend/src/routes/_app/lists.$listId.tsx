@@ -0,0 +1,6 @@
+import { createFileRoute, Outlet } from "@tanstack/react-router";
+
+// The list itself is drawn by App, which reads the id from the params; this only hosts the editor.
+export const Route = createFileRoute("/_app/lists/$listId")({
+  component: Outlet,
+});
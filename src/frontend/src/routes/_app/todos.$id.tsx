@@ -1,5 +1,6 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { TodoEditorModal } from "@/components/todos";
+import { getTodoList } from "@/db/todos";
 
 export const Route = createFileRoute("/_app/todos/$id")({
   component: TodoEditorRoute,
@@ -7,6 +8,7 @@ export const Route = createFileRoute("/_app/todos/$id")({
 
 function TodoEditorRoute() {
   const { id } = Route.useParams();
+  const search = Route.useSearch();
 
-  return <TodoEditorModal id={id} />;
+  return <TodoEditorModal id={id} collection={getTodoList(search).collection} />;
 }
@@ -0,0 +1,6 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { TodoTrash } from "@/components/todos";
+
+export const Route = createFileRoute("/trash")({
+  component: TodoTrash,
+});